@@ -0,0 +1,22 @@
+"use client";
+
+import { SidebarInset } from "@/components/ui/sidebar";
+import { AssessmentCalendar } from "../../components/AssessmentCalendar";
+
+export default function CalendarPage() {
+  return (
+    <SidebarInset>
+      <div className="space-y-6 md:space-y-8 w-full px-4 sm:px-6 md:px-8 py-4 md:py-6">
+        <div className="space-y-2">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Calendar
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Plan upcoming Klassenarbeiten and record their results
+          </p>
+        </div>
+        <AssessmentCalendar />
+      </div>
+    </SidebarInset>
+  );
+}
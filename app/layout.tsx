@@ -6,7 +6,13 @@ import { Sidebar } from "../components/Sidebar"
 import { SidebarProvider } from "@/components/ui/sidebar"
 import { ThemeProvider } from "@/components/theme-provider"
 import { AuthProvider } from "@/contexts/AuthContext"
+import { SandboxProvider } from "@/contexts/SandboxContext"
 import { UserMenu } from "@/components/UserMenu"
+import { ConflictDialog } from "@/components/ConflictDialog"
+import { ExamReminders } from "@/components/ExamReminders"
+import { RestorePrompt } from "@/components/RestorePrompt"
+import { UndoRedo } from "@/components/UndoRedo"
+import { Toaster } from "@/components/ui/sonner"
 
 const inter = Inter({ subsets: ["latin"] })
 
@@ -29,17 +35,26 @@ export default function RootLayout({
       <body className={`${inter.className}`}>
         <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
           <AuthProvider>
-            <SidebarProvider>
-              <div className="flex h-screen bg-background">
-                <Sidebar />
-                <div className="flex-1 flex flex-col overflow-hidden">
-                  <header className="h-14 border-b border-border flex items-center justify-end px-4">
-                    <UserMenu />
-                  </header>
-                  <main className="flex-1 overflow-auto">{children}</main>
+            <SandboxProvider>
+              <SidebarProvider>
+                <div className="flex h-screen bg-background print:block print:h-auto">
+                  <div className="contents print:hidden">
+                    <Sidebar />
+                  </div>
+                  <div className="flex-1 flex flex-col overflow-hidden print:overflow-visible">
+                    <header className="h-14 border-b border-border flex items-center justify-end gap-2 px-4 print:hidden">
+                      <ExamReminders />
+                      <UserMenu />
+                    </header>
+                    <main className="flex-1 overflow-auto print:overflow-visible">{children}</main>
+                  </div>
                 </div>
-              </div>
-            </SidebarProvider>
+                <ConflictDialog />
+                <RestorePrompt />
+                <UndoRedo />
+                <Toaster />
+              </SidebarProvider>
+            </SandboxProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
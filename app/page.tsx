@@ -1,7 +1,8 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSandbox } from "@/contexts/SandboxContext";
 import {
   Card,
   CardContent,
@@ -14,20 +15,41 @@ import { Badge } from "@/components/ui/badge";
 import Link from "next/link";
 import { SidebarInset } from "@/components/ui/sidebar";
 import type { Subject } from "../types/grades";
-import { getSubjectsFromStorage } from "../utils/storageUtils";
+import {
+  getSubjectsFromStorage,
+  getSubjectTermView,
+  reorderSubjects,
+} from "../utils/storageUtils";
 import { SubjectForm } from "../components/SubjectForm";
-import { BookOpen, ArrowRight, LineChart, Info } from "lucide-react";
+import { SubjectActions } from "../components/SubjectActions";
+import { OverallAverageCard } from "../components/OverallAverageCard";
+import { SandboxToggle } from "../components/SandboxToggle";
+import { calculateAbitur, getAbiturSubjects } from "../utils/abiturUtils";
+import {
+  BookOpen,
+  ArrowRight,
+  LineChart,
+  Info,
+  Archive,
+  GripVertical,
+  Award,
+} from "lucide-react";
 import { GradeHistoryChart } from "../components/GradeHistoryChart";
-
-function getGradeColor(grade: number): string {
-  if (grade <= 1.5) return "bg-green-500";
-  if (grade <= 2.5) return "bg-yellow-500";
-  if (grade <= 3.5) return "bg-orange-500";
-  return "bg-red-500";
-}
+import { useDragReorder } from "@/hooks/use-drag-reorder";
+import { useSettings } from "@/hooks/use-settings";
+import { useTerms } from "@/hooks/use-terms";
+import {
+  formatGrade,
+  getGradeColor,
+  getGradingScale,
+  getSubjectScale,
+} from "../utils/gradingScales";
 
 export default function Home() {
   const { user } = useAuth();
+  const settings = useSettings();
+  const { selectedTerm } = useTerms();
+  const { applySandbox } = useSandbox();
   const [subjects, setSubjects] = useState<Subject[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -44,17 +66,45 @@ export default function Home() {
     loadSubjects();
   }, [user]);
 
-  // Listen for sync preference changes
+  // Listen for sync preference changes and subject edits made elsewhere
   useEffect(() => {
     const handleSyncChange = () => {
       loadSubjects();
     };
 
     window.addEventListener("syncPreferenceChanged", handleSyncChange);
+    window.addEventListener("subjectsUpdated", handleSyncChange);
     return () => {
       window.removeEventListener("syncPreferenceChanged", handleSyncChange);
+      window.removeEventListener("subjectsUpdated", handleSyncChange);
     };
-  }, []);
+  }, [user]);
+
+  const activeSubjects = subjects.filter((subject) => !subject.archived);
+  const archivedSubjects = subjects.filter((subject) => subject.archived);
+
+  const abiturResult =
+    getAbiturSubjects(activeSubjects).length > 0
+      ? calculateAbitur(activeSubjects)
+      : null;
+
+  const { getItemProps } = useDragReorder(
+    activeSubjects.map((subject) => subject.id),
+    async (orderedIds) => {
+      await reorderSubjects(orderedIds, user?.id, user?.syncEnabled);
+    }
+  );
+
+  // Subjects reduced to the selected term, used for the overall average
+  const activeTermViews = useMemo(
+    () =>
+      subjects
+        .filter((subject) => !subject.archived)
+        .map((subject) =>
+          getSubjectTermView(applySandbox(subject), selectedTerm)
+        ),
+    [subjects, selectedTerm, applySandbox]
+  );
 
   if (isLoading) {
     return (
@@ -75,23 +125,30 @@ export default function Home() {
           </h1>
           <p className="text-sm md:text-base text-muted-foreground">
             Track and calculate your grades using the German grading system
-            (1-6)
+            (1-6) or Oberstufe points (0-15)
           </p>
           <div className="bg-muted/30 p-2 md:p-3 rounded-md mt-2 text-xs sm:text-sm flex flex-col sm:flex-row items-start gap-2">
             <Info className="h-4 w-4 md:h-5 md:w-5 text-primary shrink-0 mt-0.5" />
             <div>
               <p className="mb-1">
-                <span className="font-medium">Weighted Grading:</span> Tests
-                count double (2.0x) compared to other grade types (1.0x).
+                <span className="font-medium">Weighted Grading:</span> By
+                default tests count double (2.0x) compared to other grade types
+                (1.0x). Grade types and weights can be changed per subject.
               </p>
               <p>
                 <span className="font-medium">Graph Interpretation:</span> The
-                graph goes up for good grades (1) and down for poor grades (6).
+                graph goes up for good grades and down for poor grades, on
+                whichever scale a subject uses.
               </p>
               <p>
-                <span className="font-medium">Important:</span> The At the
-                current moment, u are not able to delete subjects, so name them
-                carefully
+                <span className="font-medium">Organizing:</span> Drag subject
+                cards to reorder them. Use the menu on a card to rename,
+                archive or delete a subject.
+              </p>
+              <p>
+                <span className="font-medium">Terms:</span> Set up school
+                terms in the sidebar to see averages per term. Archived terms
+                are read-only.
               </p>
             </div>
           </div>
@@ -102,93 +159,147 @@ export default function Home() {
           <SubjectForm onSubjectAdded={loadSubjects} />
         </div>
 
+        {activeSubjects.length > 0 && (
+          <OverallAverageCard
+            subjects={activeTermViews}
+            scale={getGradingScale(settings.gradingScale)}
+          />
+        )}
+
+        {abiturResult && (
+          <Link
+            href="/abitur"
+            className="flex items-center justify-between gap-2 rounded-lg border border-border bg-card p-3 md:p-4 hover:shadow-lg transition-all"
+          >
+            <div className="flex items-center gap-2 min-w-0">
+              <Award className="h-4 w-4 md:h-5 md:w-5 text-primary shrink-0" />
+              <span className="text-sm md:text-base font-medium">Abitur</span>
+              <span className="text-xs md:text-sm text-muted-foreground truncate">
+                {abiturResult.total} of 900 points
+                {abiturResult.passed ? "" : " · requirements not met yet"}
+              </span>
+            </div>
+            {abiturResult.finalGrade !== null && (
+              <Badge
+                className={`${
+                  abiturResult.passed ? "bg-green-500" : "bg-orange-500"
+                } text-white`}
+              >
+                {abiturResult.finalGrade.toFixed(1)}
+              </Badge>
+            )}
+          </Link>
+        )}
+
         <div className="space-y-2 md:space-y-4">
           <h2 className="text-xl md:text-2xl font-semibold tracking-tight flex items-center gap-2">
             <BookOpen className="h-4 w-4 md:h-5 md:w-5 text-primary" />
             Your Subjects
           </h2>
           <p className="text-sm md:text-base text-muted-foreground">
+            {selectedTerm
+              ? `Showing grades from ${selectedTerm.name}${
+                  selectedTerm.archived ? " (archived)" : ""
+                }. `
+              : ""}
             Select a subject to view and add grades
           </p>
+          <SandboxToggle />
         </div>
 
-        {subjects.length > 0 ? (
+        {activeSubjects.length > 0 ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 md:gap-6">
-            {subjects.map((subject) => (
-              <Card
-                key={subject.id}
-                className="bg-card border-border overflow-hidden hover:shadow-lg transition-all duration-300 group"
-              >
-                <CardHeader className="p-4 pb-2">
-                  <div className="flex justify-between items-center">
-                    <CardTitle className="text-lg md:text-xl">
-                      {subject.name}
-                    </CardTitle>
-                    {subject.averageGrade !== undefined &&
-                      subject.averageGrade > 0 && (
-                        <Badge
-                          className={`${getGradeColor(
-                            subject.averageGrade
-                          )} text-white`}
-                        >
-                          {subject.averageGrade.toFixed(1)}
-                        </Badge>
-                      )}
-                  </div>
-                  <CardDescription className="text-xs md:text-sm">
-                    {subject.grades.length} grade
-                    {subject.grades.length !== 1 ? "s" : ""} recorded
-                  </CardDescription>
-                </CardHeader>
-
-                {/* Centered Chart */}
-                <div className="flex justify-center items-center px-2 sm:px-4 py-1 sm:py-2">
-                  <div className="h-[100px] sm:h-[120px] w-full">
-                    <GradeHistoryChart
-                      grades={subject.grades}
-                      height={100}
-                      showGrid={false}
-                      showAxis={false}
-                      className="sm:h-[120px]"
-                    />
-                  </div>
-                </div>
-
-                <CardContent className="p-4 pt-0 pb-2">
-                  <div className="space-y-1 sm:space-y-2">
-                    <p className="text-xs sm:text-sm text-muted-foreground">
-                      Recent grades:
-                    </p>
-                    <div className="flex flex-wrap gap-1 sm:gap-2">
-                      {subject.grades.slice(-3).map((grade, index) => (
-                        <Badge
-                          key={index}
-                          variant="outline"
-                          className="text-xs border-border"
-                        >
-                          {grade.type}: {grade.value}
-                        </Badge>
-                      ))}
-                      {subject.grades.length === 0 && (
-                        <span className="text-xs text-muted-foreground">
-                          No grades yet
-                        </span>
-                      )}
+            {activeSubjects.map((subject) => {
+              const scale = getSubjectScale(subject, settings.gradingScale);
+              const termView = getSubjectTermView(
+                applySandbox(subject),
+                selectedTerm
+              );
+              return (
+                <Card
+                  key={subject.id}
+                  {...getItemProps(subject.id)}
+                  className="bg-card border-border overflow-hidden hover:shadow-lg transition-all duration-300 group data-[dragging=true]:opacity-50 data-[drag-over=true]:ring-2 data-[drag-over=true]:ring-primary"
+                >
+                  <CardHeader className="p-4 pb-2">
+                    <div className="flex justify-between items-center gap-2">
+                      <div className="flex items-center gap-1 min-w-0">
+                        <GripVertical className="h-4 w-4 text-muted-foreground shrink-0 cursor-grab" />
+                        <CardTitle className="text-lg md:text-xl truncate">
+                          {subject.name}
+                        </CardTitle>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {termView.averageGrade !== undefined &&
+                          termView.grades.length > 0 && (
+                            <Badge
+                              className={`${getGradeColor(
+                                termView.averageGrade,
+                                scale
+                              )} text-white`}
+                            >
+                              {scale.formatAverage(termView.averageGrade)}
+                            </Badge>
+                          )}
+                        <SubjectActions subject={subject} />
+                      </div>
+                    </div>
+                    <CardDescription className="text-xs md:text-sm">
+                      {termView.grades.length} grade
+                      {termView.grades.length !== 1 ? "s" : ""} recorded
+                    </CardDescription>
+                  </CardHeader>
+
+                  {/* Centered Chart */}
+                  <div className="flex justify-center items-center px-2 sm:px-4 py-1 sm:py-2">
+                    <div className="h-[100px] sm:h-[120px] w-full">
+                      <GradeHistoryChart
+                        grades={termView.grades}
+                        scale={scale}
+                        height={100}
+                        showGrid={false}
+                        showAxis={false}
+                        className="sm:h-[120px]"
+                      />
                     </div>
                   </div>
-                </CardContent>
-                <CardFooter className="bg-muted/50 p-3 sm:p-4 mt-2">
-                  <Link
-                    href={`/subjects/${subject.id}`}
-                    className="text-primary hover:text-primary/90 flex items-center gap-1 text-xs sm:text-sm font-medium transition-colors w-full"
-                  >
-                    <LineChart className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
-                    View Detailed Chart
-                    <ArrowRight className="h-3 w-3 sm:h-4 sm:w-4 transform group-hover:translate-x-1 transition-transform ml-auto" />
-                  </Link>
-                </CardFooter>
-              </Card>
-            ))}
+
+                  <CardContent className="p-4 pt-0 pb-2">
+                    <div className="space-y-1 sm:space-y-2">
+                      <p className="text-xs sm:text-sm text-muted-foreground">
+                        Recent grades:
+                      </p>
+                      <div className="flex flex-wrap gap-1 sm:gap-2">
+                        {termView.grades.slice(-3).map((grade, index) => (
+                          <Badge
+                            key={index}
+                            variant="outline"
+                            className="text-xs border-border"
+                          >
+                            {grade.type}: {formatGrade(grade, scale)}
+                          </Badge>
+                        ))}
+                        {termView.grades.length === 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            No grades yet
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                  <CardFooter className="bg-muted/50 p-3 sm:p-4 mt-2">
+                    <Link
+                      href={`/subjects/${subject.id}`}
+                      className="text-primary hover:text-primary/90 flex items-center gap-1 text-xs sm:text-sm font-medium transition-colors w-full"
+                    >
+                      <LineChart className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+                      View Detailed Chart
+                      <ArrowRight className="h-3 w-3 sm:h-4 sm:w-4 transform group-hover:translate-x-1 transition-transform ml-auto" />
+                    </Link>
+                  </CardFooter>
+                </Card>
+              );
+            })}
           </div>
         ) : (
           <div className="bg-card border border-border rounded-lg p-4 sm:p-8 text-center">
@@ -197,6 +308,37 @@ export default function Home() {
             </p>
           </div>
         )}
+
+        {archivedSubjects.length > 0 && (
+          <div className="space-y-2 md:space-y-4 pb-6">
+            <h2 className="text-lg md:text-xl font-semibold tracking-tight flex items-center gap-2 text-muted-foreground">
+              <Archive className="h-4 w-4 md:h-5 md:w-5" />
+              Archived Subjects
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2 md:gap-4">
+              {archivedSubjects.map((subject) => (
+                <Card
+                  key={subject.id}
+                  className="bg-muted/30 border-border flex items-center justify-between p-3"
+                >
+                  <Link
+                    href={`/subjects/${subject.id}`}
+                    className="text-sm font-medium hover:text-primary transition-colors truncate"
+                  >
+                    {subject.name}
+                  </Link>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {subject.grades.length} grade
+                      {subject.grades.length !== 1 ? "s" : ""}
+                    </span>
+                    <SubjectActions subject={subject} />
+                  </div>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </SidebarInset>
   );
@@ -0,0 +1,22 @@
+"use client";
+
+import { SidebarInset } from "@/components/ui/sidebar";
+import { GradeReport } from "../../components/GradeReport";
+
+export default function ReportPage() {
+  return (
+    <SidebarInset>
+      <div className="space-y-6 md:space-y-8 w-full px-4 sm:px-6 md:px-8 py-4 md:py-6 print:p-0">
+        <div className="space-y-2 print:hidden">
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">
+            Report
+          </h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            A printable overview of your grades for parents and tutors
+          </p>
+        </div>
+        <GradeReport />
+      </div>
+    </SidebarInset>
+  );
+}
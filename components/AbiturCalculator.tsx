@@ -0,0 +1,299 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { AbiturCourse, CourseType, ExamType } from "../types/abitur"
+import type { Subject } from "../types/grades"
+import { getSubjectsFromStorage, updateAbiturCourses } from "../utils/storageUtils"
+import { EXAM_COUNT, SEMESTER_LABELS, calculateAbitur, createAbiturCourse } from "../utils/abiturUtils"
+import { PUNKTE_SCALE, convertGrade, getSubjectScale } from "../utils/gradingScales"
+import { CheckCircle2, GraduationCap, XCircle } from "lucide-react"
+
+const NONE = "none"
+
+// Empty input means the result is not known yet
+const parsePoints = (value: string): number | null => {
+  const points = Number.parseInt(value)
+  return isNaN(points) ? null : Math.min(15, Math.max(0, points))
+}
+
+export function AbiturCalculator() {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [courses, setCourses] = useState<Record<string, AbiturCourse | undefined>>({})
+  const [isDirty, setIsDirty] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadSubjects = async () => {
+      const savedSubjects = await getSubjectsFromStorage(user?.id, user?.syncEnabled)
+      setSubjects(savedSubjects.filter((subject) => !subject.archived))
+      setCourses(Object.fromEntries(savedSubjects.map((subject) => [subject.id, subject.abitur])))
+      setIsDirty(false)
+    }
+
+    loadSubjects()
+  }, [user])
+
+  // Results follow the edits before they are saved
+  const result = useMemo(
+    () => calculateAbitur(subjects.map((subject) => ({ ...subject, abitur: courses[subject.id] }))),
+    [subjects, courses],
+  )
+
+  const updateCourse = (subjectId: string, course: AbiturCourse | undefined) => {
+    setCourses((prev) => ({ ...prev, [subjectId]: course }))
+    setIsDirty(true)
+  }
+
+  const patchCourse = (subjectId: string, patch: Partial<AbiturCourse>) => {
+    const course = courses[subjectId]
+    if (course) {
+      updateCourse(subjectId, { ...course, ...patch })
+    }
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const success = await updateAbiturCourses(courses, user?.id, user?.syncEnabled)
+    setIsSaving(false)
+    setIsDirty(!success)
+    setError(success ? "" : "Failed to save Abitur data")
+  }
+
+  // Current average of a subject in points, as a hint for the running semester
+  const getCurrentPoints = (subject: Subject) => {
+    if (subject.averageGrade === undefined || subject.grades.length === 0) return null
+    return convertGrade(subject.averageGrade, getSubjectScale(subject, settings.gradingScale), PUNKTE_SCALE)
+  }
+
+  const examCount = Object.values(courses).filter((course) => course?.exam).length
+
+  return (
+    <div className="space-y-6 md:space-y-8">
+      <Card className="bg-card border-border shadow-lg">
+        <CardHeader className="p-4 pb-2">
+          <div className="flex justify-between items-start gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+                <GraduationCap className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+                Result
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Block I (up to 600 points) plus block II (up to 300 points)
+              </CardDescription>
+            </div>
+            {result.finalGrade !== null && (
+              <Badge
+                className={`${result.passed ? "bg-green-500" : "bg-orange-500"} text-white text-base md:text-lg`}
+              >
+                {result.finalGrade.toFixed(1)}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="rounded-md bg-muted/30 p-2">
+              <p className="text-xs text-muted-foreground">Block I</p>
+              <p className="text-lg font-bold">{result.blockI.points}</p>
+            </div>
+            <div className="rounded-md bg-muted/30 p-2">
+              <p className="text-xs text-muted-foreground">Block II</p>
+              <p className="text-lg font-bold">{result.blockII.points}</p>
+            </div>
+            <div className="rounded-md bg-muted/30 p-2">
+              <p className="text-xs text-muted-foreground">Total</p>
+              <p className="text-lg font-bold">{result.total}</p>
+            </div>
+          </div>
+          <ul className="space-y-1">
+            {result.checks.map((check) => (
+              <li key={check.id} className="flex items-start gap-2 text-xs md:text-sm">
+                {check.passed ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                )}
+                <span>
+                  {check.label} <span className="text-muted-foreground">({check.detail})</span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">
+            {result.passed
+              ? "All admission and pass requirements are met."
+              : "The final grade is provisional until all requirements are met."}
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border shadow-lg">
+        <CardHeader className="p-4 pb-2">
+          <div className="flex justify-between items-start gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg md:text-xl">Courses</CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Enter your semester results in points. Untick semesters that are not brought into block I, and
+                choose {EXAM_COUNT} exam subjects ({examCount} chosen).
+              </CardDescription>
+            </div>
+            <Button onClick={handleSave} disabled={!isDirty || isSaving} className="shrink-0">
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+          {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+        </CardHeader>
+        <CardContent className="p-4">
+          {subjects.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/70">
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Course</TableHead>
+                    {SEMESTER_LABELS.map((label) => (
+                      <TableHead key={label}>{label}</TableHead>
+                    ))}
+                    <TableHead>Exam</TableHead>
+                    <TableHead>Exam points</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subjects.map((subject) => {
+                    const course = courses[subject.id]
+                    const currentPoints = getCurrentPoints(subject)
+                    return (
+                      <TableRow key={subject.id} className="hover:bg-muted/30">
+                        <TableCell className="font-medium text-xs md:text-sm">
+                          <Link href={`/subjects/${subject.id}`} className="hover:text-primary transition-colors">
+                            {subject.name}
+                          </Link>
+                          {currentPoints !== null && (
+                            <p className="text-xs text-muted-foreground font-normal">
+                              Now: {Math.round(currentPoints)} P
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={course?.courseType ?? NONE}
+                            onValueChange={(value) =>
+                              value === NONE
+                                ? updateCourse(subject.id, undefined)
+                                : course
+                                  ? patchCourse(subject.id, { courseType: value as CourseType })
+                                  : updateCourse(subject.id, createAbiturCourse(value as CourseType))
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-20 bg-background border-border text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NONE}>–</SelectItem>
+                              <SelectItem value="LK">LK</SelectItem>
+                              <SelectItem value="GK">GK</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        {SEMESTER_LABELS.map((label, index) => (
+                          <TableCell key={label}>
+                            {course && (
+                              <div className="flex items-center gap-1">
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  max={15}
+                                  value={course.semesters[index] ?? ""}
+                                  onChange={(e) =>
+                                    patchCourse(subject.id, {
+                                      semesters: course.semesters.map((points, i) =>
+                                        i === index ? parsePoints(e.target.value) : points,
+                                      ),
+                                    })
+                                  }
+                                  className="h-8 w-14 bg-background border-border text-xs"
+                                />
+                                <Checkbox
+                                  checked={course.counted[index]}
+                                  onCheckedChange={(checked) =>
+                                    patchCourse(subject.id, {
+                                      counted: course.counted.map((counted, i) =>
+                                        i === index ? checked === true : counted,
+                                      ),
+                                    })
+                                  }
+                                  aria-label={`Count ${label} in block I`}
+                                />
+                              </div>
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell>
+                          {course && (
+                            <Select
+                              value={course.exam?.type ?? NONE}
+                              onValueChange={(value) =>
+                                patchCourse(subject.id, {
+                                  exam:
+                                    value === NONE
+                                      ? undefined
+                                      : { type: value as ExamType, points: course.exam?.points ?? null },
+                                })
+                              }
+                            >
+                              <SelectTrigger className="h-8 w-24 bg-background border-border text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={NONE}>–</SelectItem>
+                                <SelectItem value="written">Written</SelectItem>
+                                <SelectItem value="oral">Oral</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {course?.exam && (
+                            <Input
+                              type="number"
+                              min={0}
+                              max={15}
+                              value={course.exam.points ?? ""}
+                              onChange={(e) =>
+                                patchCourse(subject.id, {
+                                  exam: { type: course.exam!.type, points: parsePoints(e.target.value) },
+                                })
+                              }
+                              className="h-8 w-14 bg-background border-border text-xs"
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No subjects found. Add your subjects on the dashboard first.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
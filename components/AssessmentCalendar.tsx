@@ -0,0 +1,303 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useAssessments } from "@/hooks/use-assessments"
+import { useSettings } from "@/hooks/use-settings"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { UpcomingAssessment } from "../types/assessments"
+import type { Subject } from "../types/grades"
+import { addAssessment, completeAssessment, deleteAssessment } from "../utils/assessmentUtils"
+import { downloadFile, fileDateStamp } from "../utils/fileUtils"
+import { getSubjectScale } from "../utils/gradingScales"
+import { assessmentsToIcs } from "../utils/icsUtils"
+import { getGradeTypes, getSubjectsFromStorage, getTypeWeight } from "../utils/storageUtils"
+import { parseGradeInput } from "../utils/tendencyUtils"
+import { CalendarPlus, Check, Download, Trash2 } from "lucide-react"
+
+// Dates are kept as local YYYY-MM-DD strings, like grade dates
+const toDateString = (date: Date) => date.toLocaleDateString("en-CA")
+const fromDateString = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(year, month - 1, day)
+}
+
+interface AssessmentItemProps {
+  assessment: UpcomingAssessment
+  subject?: Subject
+}
+
+// One assessment with a field to enter its result
+function AssessmentItem({ assessment, subject }: AssessmentItemProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const [result, setResult] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const scale = getSubjectScale(subject, settings.gradingScale)
+
+  const handleComplete = async () => {
+    const parsed = parseGradeInput(result, scale, settings.tendencyOffset)
+    if (parsed.error !== undefined) {
+      setError(parsed.error)
+      return
+    }
+
+    setIsSaving(true)
+    const success = await completeAssessment(assessment.id, parsed, user?.id, user?.syncEnabled)
+    setIsSaving(false)
+    setError(success ? "" : "Failed to save the grade. The date may fall into an archived term.")
+  }
+
+  return (
+    <div className="rounded-md border border-border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">
+            {subject?.name ?? "Unknown subject"}: {assessment.type}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {fromDateString(assessment.date).toLocaleDateString()} · {assessment.weight}x
+            {assessment.topic && ` · ${assessment.topic}`}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => deleteAssessment(assessment.id)}
+          className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0 shrink-0"
+          aria-label="Delete assessment"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {subject && (
+        <div className="flex gap-2">
+          <Input
+            value={result}
+            onChange={(e) => setResult(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleComplete()}
+            placeholder="Result"
+            className="h-8 bg-background border-border"
+          />
+          <Button size="sm" onClick={handleComplete} disabled={isSaving || !result.trim()} className="shrink-0">
+            <Check className="h-4 w-4 mr-1" />
+            Save as grade
+          </Button>
+        </div>
+      )}
+      {error && <p className="text-destructive text-xs">{error}</p>}
+    </div>
+  )
+}
+
+// Upcoming Klassenarbeiten on a calendar, with an iCalendar export
+export function AssessmentCalendar() {
+  const { user } = useAuth()
+  const assessments = useAssessments()
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [selectedDay, setSelectedDay] = useState<Date>(new Date())
+  const [subjectId, setSubjectId] = useState("")
+  const [type, setType] = useState("")
+  const [weight, setWeight] = useState("")
+  const [topic, setTopic] = useState("")
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadSubjects = async () => {
+      const savedSubjects = await getSubjectsFromStorage(user?.id, user?.syncEnabled)
+      setSubjects(savedSubjects.filter((subject) => !subject.archived))
+    }
+
+    loadSubjects()
+    window.addEventListener("subjectsUpdated", loadSubjects)
+    return () => window.removeEventListener("subjectsUpdated", loadSubjects)
+  }, [user])
+
+  const subject = subjects.find((s) => s.id === subjectId)
+  const gradeTypes = getGradeTypes(subject?.weighting)
+  const selectedDate = toDateString(selectedDay)
+  const today = toDateString(new Date())
+
+  const assessmentDays = useMemo(() => assessments.map((assessment) => fromDateString(assessment.date)), [assessments])
+  const onSelectedDay = assessments.filter((assessment) => assessment.date === selectedDate)
+  const upcoming = assessments.filter((assessment) => assessment.date >= today)
+  const awaitingResult = assessments.filter((assessment) => assessment.date < today)
+  const subjectOf = (assessment: UpcomingAssessment) => subjects.find((s) => s.id === assessment.subjectId)
+
+  const handleSubjectChange = (id: string) => {
+    setSubjectId(id)
+    const types = getGradeTypes(subjects.find((s) => s.id === id)?.weighting)
+    setType(types[0]?.name ?? "Test")
+    setWeight(String(types[0]?.weight ?? 1))
+  }
+
+  const handleTypeChange = (name: string) => {
+    setType(name)
+    setWeight(String(getTypeWeight(name, subject?.weighting)))
+  }
+
+  const handleAdd = () => {
+    const parsedWeight = Number.parseFloat(weight.replace(",", "."))
+    if (!subject) {
+      setError("Please choose a subject")
+      return
+    }
+    if (isNaN(parsedWeight) || parsedWeight < 0) {
+      setError("Weight must be a positive number")
+      return
+    }
+
+    const success = addAssessment({
+      subjectId: subject.id,
+      date: selectedDate,
+      type: type || gradeTypes[0]?.name || "Test",
+      weight: parsedWeight,
+      ...(topic.trim() && { topic: topic.trim() }),
+    })
+    setError(success ? "" : "Failed to save the assessment")
+    if (success) setTopic("")
+  }
+
+  const handleExport = () => {
+    downloadFile(assessmentsToIcs(upcoming, subjects), `assessments-${fileDateStamp()}.ics`, "text/calendar;charset=utf-8")
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card className="bg-card border-border shadow-lg">
+        <CardHeader>
+          <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5 text-primary" />
+            Plan an Assessment
+          </CardTitle>
+          <CardDescription>Pick a day, then add what is being written</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Calendar
+            mode="single"
+            selected={selectedDay}
+            onSelect={(day) => day && setSelectedDay(day)}
+            modifiers={{ assessment: assessmentDays }}
+            modifiersClassNames={{ assessment: "font-bold underline decoration-primary decoration-2 underline-offset-4" }}
+            className="rounded-md border border-border w-fit mx-auto"
+          />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Subject</Label>
+              <Select value={subjectId} onValueChange={handleSubjectChange}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue placeholder="Choose a subject" />
+                </SelectTrigger>
+                <SelectContent>
+                  {subjects.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={type || undefined} onValueChange={handleTypeChange} disabled={!subject}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue placeholder="Type" />
+                </SelectTrigger>
+                <SelectContent>
+                  {gradeTypes.map((t) => (
+                    <SelectItem key={t.name} value={t.name}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assessment-topic" className="text-xs">
+                Topic
+              </Label>
+              <Input
+                id="assessment-topic"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="e.g. Quadratic equations"
+                className="bg-background border-border"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="assessment-weight" className="text-xs">
+                Expected weight
+              </Label>
+              <Input
+                id="assessment-weight"
+                inputMode="decimal"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                className="bg-background border-border"
+              />
+            </div>
+          </div>
+          {error && <p className="text-destructive text-xs">{error}</p>}
+          <Button onClick={handleAdd} disabled={!subject} className="w-full">
+            Add on {selectedDay.toLocaleDateString()}
+          </Button>
+
+          {onSelectedDay.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">On {selectedDay.toLocaleDateString()}</h3>
+              {onSelectedDay.map((assessment) => (
+                <AssessmentItem key={assessment.id} assessment={assessment} subject={subjectOf(assessment)} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card border-border shadow-lg">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-lg md:text-xl">Upcoming</CardTitle>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={upcoming.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export .ics
+            </Button>
+          </div>
+          <CardDescription>
+            Import the .ics file into your calendar app. Enter a result to turn an assessment into a grade.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {awaitingResult.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium flex items-center gap-2">
+                Awaiting result
+                <Badge variant="secondary">{awaitingResult.length}</Badge>
+              </h3>
+              {awaitingResult.map((assessment) => (
+                <AssessmentItem key={assessment.id} assessment={assessment} subject={subjectOf(assessment)} />
+              ))}
+            </div>
+          )}
+
+          {upcoming.length > 0 ? (
+            <div className="space-y-2">
+              {upcoming.map((assessment) => (
+                <AssessmentItem key={assessment.id} assessment={assessment} subject={subjectOf(assessment)} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing planned yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
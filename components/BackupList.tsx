@@ -0,0 +1,97 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import type { SnapshotInfo } from "@/types/repository"
+import { listSnapshots } from "@/utils/snapshotUtils"
+import { restoreSnapshot } from "@/utils/storageUtils"
+import { History } from "lucide-react"
+
+// Snapshots of the grade store with a restore action, shown in the settings
+export function BackupList() {
+  const { user } = useAuth()
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([])
+  const [pendingRestore, setPendingRestore] = useState<SnapshotInfo | null>(null)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [message, setMessage] = useState("")
+
+  useEffect(() => {
+    const loadSnapshots = async () => setSnapshots(await listSnapshots())
+
+    loadSnapshots()
+    window.addEventListener("snapshotsUpdated", loadSnapshots)
+    return () => window.removeEventListener("snapshotsUpdated", loadSnapshots)
+  }, [])
+
+  const handleRestore = async (snapshot: SnapshotInfo) => {
+    setIsRestoring(true)
+    const success = await restoreSnapshot(snapshot.id, user?.id, user?.syncEnabled)
+    setIsRestoring(false)
+    setPendingRestore(null)
+    setMessage(
+      success
+        ? `Restored the backup from ${new Date(snapshot.createdAt).toLocaleString()}`
+        : "Failed to restore the backup",
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center">
+        <History className="h-4 w-4 mr-2 text-primary" />
+        <Label className="font-medium">Backups</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Taken automatically on every save and once a day. Restoring replaces all subjects and grades.
+      </p>
+
+      {snapshots.length > 0 ? (
+        <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border">
+          {snapshots.map((snapshot) => (
+            <div key={snapshot.id} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <p className="text-xs md:text-sm flex items-center gap-2">
+                  {new Date(snapshot.createdAt).toLocaleString()}
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                    {snapshot.kind === "daily" ? "Daily" : "Save"}
+                  </Badge>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {snapshot.subjectCount} subject{snapshot.subjectCount !== 1 ? "s" : ""}, {snapshot.gradeCount} grade
+                  {snapshot.gradeCount !== 1 ? "s" : ""}
+                </p>
+              </div>
+              {pendingRestore?.id === snapshot.id ? (
+                <div className="flex gap-1 shrink-0">
+                  <Button size="sm" onClick={() => handleRestore(snapshot)} disabled={isRestoring}>
+                    {isRestoring ? "Restoring..." : "Confirm"}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setPendingRestore(null)} disabled={isRestoring}>
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setPendingRestore(snapshot)}
+                  disabled={isRestoring}
+                  className="shrink-0"
+                >
+                  Restore
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No backups yet. One is taken the next time you save.</p>
+      )}
+
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Subject } from "../types/grades"
+import { calculateCategoryBreakdown, getUncategorizedGrades } from "../utils/storageUtils"
+import type { GradingScale } from "../utils/gradingScales"
+import { PieChart } from "lucide-react"
+
+interface CategoryBreakdownCardProps {
+  subject: Subject
+  scale: GradingScale
+}
+
+export function CategoryBreakdownCard({ subject, scale }: CategoryBreakdownCardProps) {
+  const breakdown = calculateCategoryBreakdown(subject.grades, subject.weighting)
+  const uncategorized = getUncategorizedGrades(subject.grades, subject.weighting)
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <PieChart className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+          Category Breakdown
+        </CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          Each category is averaged separately and counts with its share of the final grade
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/70">
+                <TableHead>Category</TableHead>
+                <TableHead>Grades</TableHead>
+                <TableHead>Average</TableHead>
+                <TableHead>Share</TableHead>
+                <TableHead className="text-right">Contribution</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {breakdown.map(({ category, gradeCount, average, effectiveShare, contribution }) => (
+                <TableRow key={category.id} className="hover:bg-muted/30">
+                  <TableCell className="font-medium text-xs md:text-sm">{category.name}</TableCell>
+                  <TableCell className="text-xs md:text-sm">{gradeCount}</TableCell>
+                  <TableCell className="text-xs md:text-sm">{average !== null ? scale.formatAverage(average) : "–"}</TableCell>
+                  <TableCell className="text-xs md:text-sm">
+                    {category.share}%
+                    {average !== null && Math.abs(effectiveShare * 100 - category.share) > 0.01 && (
+                      <span className="text-muted-foreground"> (now {(effectiveShare * 100).toFixed(0)}%)</span>
+                    )}
+                    {average === null && <span className="text-muted-foreground"> (no grades, not counted)</span>}
+                  </TableCell>
+                  <TableCell className="text-right text-xs md:text-sm">
+                    {average !== null ? contribution.toFixed(2) : "–"}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="bg-muted/30 hover:bg-muted/30">
+                <TableCell colSpan={4} className="font-medium text-xs md:text-sm">
+                  Final average
+                </TableCell>
+                <TableCell className="text-right font-bold text-xs md:text-sm">
+                  {subject.grades.length > 0 && subject.averageGrade !== undefined
+                    ? scale.formatAverage(subject.averageGrade)
+                    : "–"}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+        {uncategorized.length > 0 && (
+          <p className="text-xs text-muted-foreground mt-3">
+            {uncategorized.length} grade{uncategorized.length !== 1 ? "s are" : " is"} not assigned to a category and
+            not counted. Assign their types to a category in the weighting settings.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Grade } from "../types/grades"
+import type { ConflictSide, SubjectFields, SyncConflict } from "../types/sync"
+import { getConflicts } from "../utils/mergeUtils"
+import { resolveConflict } from "../utils/storageUtils"
+import { getTerms } from "../utils/termUtils"
+import { GitMerge } from "lucide-react"
+
+interface FieldRow {
+  label: string
+  local: string
+  remote: string
+}
+
+const formatTimestamp = (updatedAt?: string) => (updatedAt ? new Date(updatedAt).toLocaleString() : "unknown")
+
+const gradeRows = (local: Grade, remote: Grade): FieldRow[] => {
+  const terms = getTerms()
+  const termName = (grade: Grade) => terms.find((term) => term.id === grade.termId)?.name ?? "–"
+  return [
+    { label: "Grade", local: local.notation ?? String(local.value), remote: remote.notation ?? String(remote.value) },
+    { label: "Type", local: local.type, remote: remote.type },
+    { label: "Date", local: local.date, remote: remote.date },
+    { label: "Weight", local: String(local.weight), remote: String(remote.weight) },
+    { label: "Term", local: termName(local), remote: termName(remote) },
+  ]
+}
+
+const subjectRows = (local: SubjectFields, remote: SubjectFields): FieldRow[] => {
+  // Nested settings are only compared, not spelled out
+  const changed = (a: unknown, b: unknown) => (JSON.stringify(a) === JSON.stringify(b) ? "same" : "differs")
+  return [
+    { label: "Name", local: local.name, remote: remote.name },
+    { label: "Archived", local: local.archived ? "Yes" : "No", remote: remote.archived ? "Yes" : "No" },
+    { label: "Scale", local: local.scale ?? "Default", remote: remote.scale ?? "Default" },
+    {
+      label: "Weight in overall average",
+      local: String(local.creditWeight ?? 1),
+      remote: String(remote.creditWeight ?? 1),
+    },
+    {
+      label: "Grade weighting",
+      local: changed(local.weighting, remote.weighting),
+      remote: changed(local.weighting, remote.weighting),
+    },
+    {
+      label: "Abitur course",
+      local: changed(local.abitur, remote.abitur),
+      remote: changed(local.abitur, remote.abitur),
+    },
+  ]
+}
+
+const getRows = (conflict: SyncConflict) =>
+  conflict.kind === "grade"
+    ? gradeRows(conflict.local, conflict.remote)
+    : subjectRows(conflict.local, conflict.remote)
+
+// Shows conflicts found while merging with the cloud, one at a time
+export function ConflictDialog() {
+  const { user } = useAuth()
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [postponed, setPostponed] = useState(false)
+  const [isResolving, setIsResolving] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const loadConflicts = () => setConflicts(user ? getConflicts(user.id) : [])
+
+    loadConflicts()
+    window.addEventListener("conflictsUpdated", loadConflicts)
+    window.addEventListener("storage", loadConflicts)
+    return () => {
+      window.removeEventListener("conflictsUpdated", loadConflicts)
+      window.removeEventListener("storage", loadConflicts)
+    }
+  }, [user])
+
+  const conflict = conflicts[0]
+  if (!conflict) return null
+
+  const handleResolve = async (side: ConflictSide) => {
+    setIsResolving(true)
+    const success = await resolveConflict(conflict, side, user?.id, user?.syncEnabled)
+    setIsResolving(false)
+    setError(success ? "" : "Failed to apply the selected version")
+  }
+
+  const title =
+    conflict.kind === "grade"
+      ? `A grade in ${conflict.subjectName} was changed on two devices`
+      : `${conflict.subjectName} was changed on two devices`
+
+  return (
+    <Dialog open={!postponed} onOpenChange={(open) => !open && setPostponed(true)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-4 w-4 text-primary" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>
+            Both versions changed since the last sync. The newer one is used until you choose.
+            {conflicts.length > 1 && ` ${conflicts.length - 1} more conflict${conflicts.length > 2 ? "s" : ""} after this one.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/70">
+                <TableHead />
+                <TableHead>
+                  This device {conflict.kept === "local" && <Badge variant="secondary">In use</Badge>}
+                </TableHead>
+                <TableHead>
+                  Cloud {conflict.kept === "remote" && <Badge variant="secondary">In use</Badge>}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {getRows(conflict).map((row) => {
+                const differs = row.local !== row.remote || row.local === "differs"
+                return (
+                  <TableRow key={row.label} className={differs ? "bg-amber-500/10" : ""}>
+                    <TableCell className="text-xs md:text-sm text-muted-foreground">{row.label}</TableCell>
+                    <TableCell className="text-xs md:text-sm font-medium">{row.local}</TableCell>
+                    <TableCell className="text-xs md:text-sm font-medium">{row.remote}</TableCell>
+                  </TableRow>
+                )
+              })}
+              <TableRow>
+                <TableCell className="text-xs md:text-sm text-muted-foreground">Last changed</TableCell>
+                <TableCell className="text-xs md:text-sm">{formatTimestamp(conflict.local.updatedAt)}</TableCell>
+                <TableCell className="text-xs md:text-sm">{formatTimestamp(conflict.remote.updatedAt)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={() => setPostponed(true)} disabled={isResolving}>
+            Decide later
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve("remote")} disabled={isResolving}>
+            Keep cloud version
+          </Button>
+          <Button onClick={() => handleResolve("local")} disabled={isResolving}>
+            Keep this device&apos;s version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
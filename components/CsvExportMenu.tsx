@@ -0,0 +1,53 @@
+"use client"
+
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { useSettings } from "@/hooks/use-settings"
+import type { CsvFormat } from "@/types/csv"
+import type { Subject } from "@/types/grades"
+import { CSV_FORMATS, subjectsToCsv } from "@/utils/csvUtils"
+import { downloadFile, fileDateStamp } from "@/utils/fileUtils"
+import { getSubjectsFromStorage } from "@/utils/storageUtils"
+import { FileSpreadsheet } from "lucide-react"
+
+interface CsvExportMenuProps {
+  subject?: Subject // Exports all subjects when not given
+}
+
+// Download grades as CSV in German or English spreadsheet format
+export function CsvExportMenu({ subject }: CsvExportMenuProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+
+  const handleExport = async (format: CsvFormat) => {
+    const subjects = subject ? [subject] : await getSubjectsFromStorage(user?.id, user?.syncEnabled)
+    const fileName = `${subject ? subject.name.replace(/[\s/\\:*?"<>|]+/g, "-") : "grades"}-${fileDateStamp()}.csv`
+    // The byte order mark makes Excel read umlauts correctly
+    downloadFile(`\uFEFF${subjectsToCsv(subjects, format, settings.gradingScale)}`, fileName, "text/csv;charset=utf-8")
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" className="flex items-center gap-2">
+          <FileSpreadsheet className="h-4 w-4" />
+          Export CSV
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport(CSV_FORMATS.german)}>
+          German (1,5 separated by ;)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport(CSV_FORMATS.english)}>
+          English (1.5 separated by ,)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
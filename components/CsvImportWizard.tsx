@@ -0,0 +1,338 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useSettings } from "@/hooks/use-settings"
+import { useTerms } from "@/hooks/use-terms"
+import type { CsvColumnMapping, CsvDelimiter, CsvField, CsvFormat } from "@/types/csv"
+import type { Subject } from "@/types/grades"
+import { CSV_FIELDS, CSV_FORMATS, detectCsvFormat, guessColumnMapping, mapCsvRows, parseCsv } from "@/utils/csvUtils"
+import { getSubjectsFromStorage, importGradesBySubjectName } from "@/utils/storageUtils"
+import { AlertCircle, FileUp } from "lucide-react"
+
+const NOT_MAPPED = "none"
+const PREVIEW_ROWS = 3
+
+const DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ";", label: "Semicolon (;)" },
+  { value: ",", label: "Comma (,)" },
+  { value: "\t", label: "Tab" },
+]
+
+type WizardStep = "mapping" | "review"
+
+interface CsvImportWizardProps {
+  subject?: Subject // Rows without a subject column go into this subject
+}
+
+// Import grades from a spreadsheet: choose a file, map its columns, then
+// review the rows before anything is saved
+export function CsvImportWizard({ subject }: CsvImportWizardProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const { terms } = useTerms()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [step, setStep] = useState<WizardStep>("mapping")
+  const [fileName, setFileName] = useState("")
+  const [text, setText] = useState("")
+  const [format, setFormat] = useState<CsvFormat>(CSV_FORMATS.english)
+  const [hasHeader, setHasHeader] = useState(true)
+  const [mapping, setMapping] = useState<CsvColumnMapping>({})
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const rows = useMemo(() => parseCsv(text, format.delimiter), [text, format.delimiter])
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader])
+  const columnCount = Math.max(0, ...rows.map((row) => row.length))
+  const columnName = (index: number) => (hasHeader && rows[0]?.[index]?.trim()) || `Column ${index + 1}`
+
+  // Matched against the current subjects, so names are recognised
+  useEffect(() => {
+    if (isOpen) {
+      getSubjectsFromStorage(user?.id, user?.syncEnabled).then(setSubjects)
+    }
+  }, [isOpen, user])
+
+  const result = useMemo(
+    () =>
+      step === "review"
+        ? mapCsvRows(dataRows, mapping, {
+            format,
+            subjects,
+            defaultSubject: subject,
+            defaultScaleId: settings.gradingScale,
+            tendencyOffset: settings.tendencyOffset,
+            terms,
+            firstRow: hasHeader ? 2 : 1,
+          })
+        : null,
+    [step, dataRows, mapping, format, subjects, subject, settings, terms, hasHeader],
+  )
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow choosing the same file again
+    event.target.value = ""
+    if (!file) return
+
+    const content = await file.text()
+    const detected = detectCsvFormat(content)
+    setFileName(file.name)
+    setText(content)
+    setFormat(detected)
+    setHasHeader(true)
+    setMapping(guessColumnMapping(parseCsv(content, detected.delimiter)[0] ?? [], detected))
+    setStep("mapping")
+    setError("")
+    setIsOpen(true)
+  }
+
+  const handleDelimiterChange = (delimiter: CsvDelimiter) => {
+    const nextFormat = { ...format, delimiter }
+    setFormat(nextFormat)
+    setMapping(hasHeader ? guessColumnMapping(parseCsv(text, delimiter)[0] ?? [], nextFormat) : {})
+  }
+
+  const setColumn = (field: CsvField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === NOT_MAPPED) {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (!result || result.gradeCount === 0) return
+    setIsLoading(true)
+    const success = await importGradesBySubjectName(result.groups, user?.id, user?.syncEnabled)
+    setIsLoading(false)
+    if (success) {
+      setIsOpen(false)
+    } else {
+      setError("Failed to import grades. Please try again.")
+    }
+  }
+
+  const missingField = mapping.value === undefined ? "grade" : !subject && mapping.subject === undefined ? "subject" : null
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => fileInputRef.current?.click()}
+        className="flex items-center gap-2"
+      >
+        <FileUp className="h-4 w-4" />
+        Import CSV
+      </Button>
+      <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Grades from {fileName}</DialogTitle>
+            <DialogDescription>
+              {step === "mapping"
+                ? "Choose which column holds which value. Columns left out get the subject's defaults."
+                : "Check the rows before importing. Rows with errors are skipped."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === "mapping" ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+                <div className="space-y-1">
+                  <Label className="text-xs">Separator</Label>
+                  <Select value={format.delimiter} onValueChange={(value) => handleDelimiterChange(value as CsvDelimiter)}>
+                    <SelectTrigger className="bg-background border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELIMITERS.map(({ value, label }) => (
+                        <SelectItem key={label} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Decimal numbers</Label>
+                  <Select
+                    value={format.decimalSeparator}
+                    onValueChange={(value) => setFormat({ ...format, decimalSeparator: value as "." | "," })}
+                  >
+                    <SelectTrigger className="bg-background border-border">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=",">1,5 (German)</SelectItem>
+                      <SelectItem value=".">1.5 (English)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2 h-10">
+                  <Checkbox
+                    id="csv-header"
+                    checked={hasHeader}
+                    onCheckedChange={(checked) => setHasHeader(checked === true)}
+                  />
+                  <Label htmlFor="csv-header" className="text-xs md:text-sm font-normal">
+                    First row is a header
+                  </Label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {CSV_FIELDS.map(({ field, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs">
+                      {label}
+                      {(field === "value" || (field === "subject" && !subject)) && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                      onValueChange={(value) => setColumn(field, value)}
+                    >
+                      <SelectTrigger className="bg-background border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>
+                          {field === "subject" && subject ? subject.name : "Not in file"}
+                        </SelectItem>
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {columnName(index)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {dataRows.length > 0 && (
+                <div className="rounded-md border border-border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-muted/50">
+                        {CSV_FIELDS.filter(({ field }) => mapping[field] !== undefined).map(({ field, label }) => (
+                          <TableHead key={field}>{label}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dataRows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                        <TableRow key={index}>
+                          {CSV_FIELDS.filter(({ field }) => mapping[field] !== undefined).map(({ field }) => (
+                            <TableCell key={field} className="text-xs md:text-sm">
+                              {row[mapping[field] as number] ?? ""}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {dataRows.length} row{dataRows.length !== 1 ? "s" : ""} found. Dates may be written as 2024-09-16 or
+                16.09.2024.
+              </p>
+            </div>
+          ) : (
+            result && (
+              <div className="space-y-3">
+                <p className="text-sm">
+                  {result.gradeCount} grade{result.gradeCount !== 1 ? "s" : ""} ready to import
+                  {result.groups.length > 0 &&
+                    ` into ${result.groups.map((group) => `${group.subjectName} (${group.grades.length})`).join(", ")}`}
+                  .
+                </p>
+                {result.newSubjects.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    New subjects will be created: {result.newSubjects.join(", ")}
+                  </p>
+                )}
+                {result.warnings.length > 0 && (
+                  <div className="rounded-md border border-border bg-muted/30 p-3 space-y-1">
+                    <p className="text-xs md:text-sm font-medium">
+                      {result.warnings.length} grade{result.warnings.length !== 1 ? "s" : ""} adjusted to the scale
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto text-xs text-muted-foreground space-y-0.5">
+                      {result.warnings.map(({ row, message }) => (
+                        <li key={row}>
+                          Row {row}: {message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {result.errors.length > 0 && (
+                  <div className="rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-1">
+                    <p className="text-xs md:text-sm font-medium text-destructive flex items-center gap-2">
+                      <AlertCircle className="h-4 w-4" />
+                      {result.errors.length} row{result.errors.length !== 1 ? "s" : ""} will be skipped
+                    </p>
+                    <ul className="max-h-40 overflow-y-auto text-xs text-muted-foreground space-y-0.5">
+                      {result.errors.map(({ row, message }) => (
+                        <li key={row}>
+                          Row {row}: {message}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )
+          )}
+
+          {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+
+          <DialogFooter>
+            {step === "mapping" ? (
+              <>
+                <Button variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={() => setStep("review")} disabled={missingField !== null}>
+                  {missingField ? `Choose the ${missingField} column` : "Next"}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setStep("mapping")} disabled={isLoading}>
+                  Back
+                </Button>
+                <Button onClick={handleImport} disabled={isLoading || !result || result.gradeCount === 0}>
+                  {isLoading ? "Importing..." : `Import ${result?.gradeCount ?? 0} grades`}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,204 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { CsvExportMenu } from "@/components/CsvExportMenu"
+import { CsvImportWizard } from "@/components/CsvImportWizard"
+import type { ExportFile, ImportMode, ImportPlan, ImportPreview } from "@/types/dataExport"
+import { applyImport, createExportFile, parseExportFile, planImport } from "@/utils/exportUtils"
+import { downloadFile, fileDateStamp } from "@/utils/fileUtils"
+import { ArrowDownUp, Download, Upload } from "lucide-react"
+
+const plural = (count: number, word: string) => `${count} ${word}${count !== 1 ? "s" : ""}`
+
+// One line per kind of change, e.g. "2 subjects added: Physics, Art"
+function describePreview(preview: ImportPreview): string[] {
+  const lines: string[] = []
+  const subjects = [
+    ["added", preview.subjectsAdded],
+    ["updated", preview.subjectsUpdated],
+    ["removed", preview.subjectsRemoved],
+  ] as const
+  for (const [change, names] of subjects) {
+    if (names.length > 0) lines.push(`${plural(names.length, "subject")} ${change}: ${names.join(", ")}`)
+  }
+
+  const counts = [
+    [preview.gradesAdded, "grade", "added"],
+    [preview.gradesUpdated, "grade", "updated"],
+    [preview.gradesRemoved, "grade", "removed"],
+    [preview.termsAdded, "term", "added"],
+    [preview.termsUpdated, "term", "updated"],
+    [preview.termsRemoved, "term", "removed"],
+    [preview.assessmentsAdded, "assessment", "added"],
+    [preview.assessmentsUpdated, "assessment", "updated"],
+    [preview.assessmentsRemoved, "assessment", "removed"],
+  ] as const
+  for (const [count, word, change] of counts) {
+    if (count > 0) lines.push(`${plural(count, word)} ${change}`)
+  }
+
+  if (preview.gradesSkipped > 0) {
+    lines.push(`${plural(preview.gradesSkipped, "grade")} in archived terms skipped`)
+  }
+  if (preview.termsSkipped > 0) lines.push(`${plural(preview.termsSkipped, "archived term")} kept unchanged`)
+  if (preview.settingsChanged) lines.push("Settings replaced")
+  return lines
+}
+
+// Export of all data to a JSON file, and import from one with a preview
+export function DataTransfer() {
+  const { user } = useAuth()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importFile, setImportFile] = useState<ExportFile | null>(null)
+  const [mode, setMode] = useState<ImportMode>("merge")
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [message, setMessage] = useState("")
+
+  // Recompute the preview whenever the file or the mode changes
+  useEffect(() => {
+    if (!importFile) {
+      setPlan(null)
+      return
+    }
+    let cancelled = false
+    planImport(importFile, mode, user?.id, user?.syncEnabled).then((nextPlan) => {
+      if (!cancelled) setPlan(nextPlan)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [importFile, mode, user])
+
+  const handleExport = async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const file = await createExportFile(user?.id, user?.syncEnabled)
+      downloadFile(JSON.stringify(file, null, 2), `grades-${fileDateStamp()}.json`, "application/json")
+    } catch (error) {
+      console.error("Error exporting data:", error)
+      setError("Failed to export your data")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Allow choosing the same file again
+    event.target.value = ""
+    if (!file) return
+
+    setError("")
+    setMessage("")
+    const result = parseExportFile(await file.text())
+    if (result.success) {
+      setImportFile(result.file)
+    } else {
+      setImportFile(null)
+      setError(`Cannot import ${file.name}: ${result.error}`)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    setIsLoading(true)
+    const success = await applyImport(plan, user?.id, user?.syncEnabled)
+    setIsLoading(false)
+    if (success) {
+      setImportFile(null)
+      setMessage("Import complete")
+    } else {
+      setError("Failed to import your data")
+    }
+  }
+
+  const changes = plan ? describePreview(plan.preview) : []
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center">
+        <ArrowDownUp className="h-4 w-4 mr-2 text-primary" />
+        <Label className="font-medium">Export & Import</Label>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Save all subjects, grades, terms, planned assessments and settings to a file, or load them in another browser. Spreadsheets can
+        be exchanged as CSV.
+      </p>
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={handleExport} disabled={isLoading}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+      <div className="flex gap-2">
+        <CsvExportMenu />
+        <CsvImportWizard />
+      </div>
+
+      {importFile && (
+        <div className="rounded-md border border-border bg-muted/30 p-3 space-y-3">
+          <p className="text-xs md:text-sm">
+            Export from {new Date(importFile.exportedAt).toLocaleString()} with{" "}
+            {plural(importFile.subjects.length, "subject")}.
+          </p>
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-1">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="merge" id="import-merge" />
+              <Label htmlFor="import-merge" className="text-xs md:text-sm font-normal">
+                Merge with my data
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="replace" id="import-replace" />
+              <Label htmlFor="import-replace" className="text-xs md:text-sm font-normal">
+                Replace all my data
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {plan &&
+            (changes.length > 0 ? (
+              <ul className="text-xs text-muted-foreground list-disc pl-4 space-y-0.5">
+                {changes.map((line) => (
+                  <li key={line}>{line}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nothing would change.</p>
+            ))}
+
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleImport} disabled={isLoading || !plan || changes.length === 0}>
+              {isLoading ? "Importing..." : "Import"}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setImportFile(null)} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-destructive text-xs">{error}</p>}
+      {message && <p className="text-xs text-muted-foreground">{message}</p>}
+    </div>
+  )
+}
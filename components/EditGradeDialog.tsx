@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Grade, GradeType, GradeTypeConfig } from "../types/grades"
+import { DEFAULT_GRADE_TYPES } from "../utils/storageUtils"
+import { GERMAN_SCALE, formatGrade, type GradingScale } from "../utils/gradingScales"
+import { parseGradeInput, type ParsedGradeInput } from "../utils/tendencyUtils"
+import { useSettings } from "@/hooks/use-settings"
+
+interface EditGradeDialogProps {
+  grade: Grade | null
+  gradeTypes?: GradeTypeConfig[]
+  scale?: GradingScale
+  onClose: () => void
+  onSave: (gradeId: string, patch: Partial<Omit<Grade, "id">>) => Promise<void>
+}
+
+export function EditGradeDialog({
+  grade,
+  gradeTypes = DEFAULT_GRADE_TYPES,
+  scale = GERMAN_SCALE,
+  onClose,
+  onSave,
+}: EditGradeDialogProps) {
+  const [value, setValue] = useState("")
+  const [type, setType] = useState<GradeType>("Test")
+  const [weight, setWeight] = useState("")
+  const [date, setDate] = useState("")
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { tendencyOffset } = useSettings()
+
+  // Reset the form whenever a different grade is opened
+  useEffect(() => {
+    if (grade) {
+      setValue(formatGrade(grade, scale))
+      setType(grade.type)
+      setWeight(String(grade.weight ?? 1.0))
+      setDate(grade.date)
+      setError("")
+    }
+  }, [grade, scale])
+
+  const handleSave = async () => {
+    if (!grade) return
+
+    // Unchanged values pass even if off-step, e.g. after converting scales
+    const unchanged = value === formatGrade(grade, scale)
+    const parsed: ParsedGradeInput = unchanged
+      ? { value: grade.value, notation: grade.notation }
+      : parseGradeInput(value, scale, tendencyOffset)
+    if (parsed.error !== undefined) {
+      setError(parsed.error)
+      return
+    }
+
+    const gradeWeight = Number.parseFloat(weight)
+    if (isNaN(gradeWeight) || gradeWeight <= 0) {
+      setError("Weight must be a positive number")
+      return
+    }
+
+    if (!date) {
+      setError("Please pick a date")
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await onSave(grade.id, { value: parsed.value, notation: parsed.notation, type, weight: gradeWeight, date })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || "Failed to update grade")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={grade !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit Grade</DialogTitle>
+          <DialogDescription>Correct the value, type, weight or date of this grade</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="edit-grade-value">Grade</Label>
+            <Input
+              id="edit-grade-value"
+              type="text"
+              inputMode={scale.id === "letter" || scale.supportsTendency ? "text" : "decimal"}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="bg-background border-border"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="edit-grade-type">Type</Label>
+            <Select
+              value={type}
+              onValueChange={(newType: GradeType) => {
+                setType(newType)
+                const typeConfig = gradeTypes.find((t) => t.name === newType)
+                if (typeConfig) {
+                  setWeight(String(typeConfig.weight))
+                }
+              }}
+            >
+              <SelectTrigger id="edit-grade-type" className="bg-background border-border">
+                <SelectValue placeholder="Select grade type" />
+              </SelectTrigger>
+              <SelectContent>
+                {gradeTypes.map((gradeType) => (
+                  <SelectItem key={gradeType.name} value={gradeType.name}>
+                    {gradeType.name}
+                  </SelectItem>
+                ))}
+                {/* Keep a type that was removed from the configuration selectable */}
+                {grade && !gradeTypes.some((t) => t.name === grade.type) && (
+                  <SelectItem value={grade.type}>{grade.type}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="edit-grade-weight">Weight</Label>
+            <Input
+              id="edit-grade-weight"
+              type="number"
+              step="0.5"
+              min={0}
+              value={weight}
+              onChange={(e) => setWeight(e.target.value)}
+              className="bg-background border-border"
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="edit-grade-date">Date</Label>
+            <Input
+              id="edit-grade-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="bg-background border-border"
+            />
+          </div>
+          {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
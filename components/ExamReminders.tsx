@@ -0,0 +1,113 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useAuth } from "@/contexts/AuthContext"
+import { useAssessments } from "@/hooks/use-assessments"
+import { useSettings } from "@/hooks/use-settings"
+import { Button } from "@/components/ui/button"
+import type { UpcomingAssessment } from "@/types/assessments"
+import type { Subject } from "@/types/grades"
+import { getAssessments } from "@/utils/assessmentUtils"
+import {
+  describeDaysLeft,
+  getDaysLeft,
+  getNotificationPermission,
+  getPendingReminders,
+  getReminderSchedule,
+  markRemindersSent,
+  registerReminderWorker,
+  scheduleReminders,
+} from "@/utils/reminderUtils"
+import { getSubjectsFromStorage } from "@/utils/storageUtils"
+import { Bell, X } from "lucide-react"
+
+// Keeps the service worker's reminder schedule up to date; the worker shows
+// the notifications. Without permission the reminders show as a banner.
+export function ExamReminders() {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const assessments = useAssessments()
+  const [subjects, setSubjects] = useState<Subject[] | null>(null)
+  const [banner, setBanner] = useState<UpcomingAssessment[]>([])
+
+  useEffect(() => {
+    const loadSubjects = async () => setSubjects(await getSubjectsFromStorage(user?.id, user?.syncEnabled))
+
+    loadSubjects()
+    window.addEventListener("subjectsUpdated", loadSubjects)
+    return () => window.removeEventListener("subjectsUpdated", loadSubjects)
+  }, [user])
+
+  useEffect(() => {
+    if (!settings.remindersEnabled) return
+    registerReminderWorker()
+
+    // Reminders shown by the worker are not shown again in the banner
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === "remindersShown") markRemindersSent(event.data.reminders, getAssessments())
+    }
+    navigator.serviceWorker?.addEventListener("message", handleMessage)
+    return () => navigator.serviceWorker?.removeEventListener("message", handleMessage)
+  }, [settings.remindersEnabled])
+
+  useEffect(() => {
+    if (!settings.remindersEnabled) {
+      setBanner([])
+      return
+    }
+    // Wait for the subjects, so notifications can name them
+    if (!subjects) return
+
+    // The worker runs one check at a time, so overlapping calls are safe
+    const checkReminders = async () => {
+      const pending = getPendingReminders(assessments, settings)
+      if (getNotificationPermission() !== "granted") {
+        setBanner(pending)
+        return
+      }
+
+      const scheduled = await scheduleReminders(getReminderSchedule(assessments, settings, subjects))
+      setBanner(scheduled ? [] : pending)
+    }
+
+    checkReminders()
+
+    // New reminders become due at midnight
+    const midnight = new Date()
+    midnight.setHours(24, 0, 5, 0)
+    const timeout = window.setTimeout(checkReminders, midnight.getTime() - Date.now())
+    const handleVisibilityChange = () => document.visibilityState === "visible" && checkReminders()
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+    return () => {
+      window.clearTimeout(timeout)
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [assessments, settings, subjects])
+
+  if (banner.length === 0) return null
+
+  const [next] = banner
+  const nextSubject = subjects?.find((subject) => subject.id === next.subjectId)?.name ?? "Assessment"
+
+  const handleDismiss = () => {
+    markRemindersSent(banner, assessments)
+    setBanner([])
+  }
+
+  return (
+    <div
+      role="status"
+      className="flex items-center gap-2 min-w-0 rounded-md border border-primary/30 bg-primary/10 pl-3 pr-1 py-1 text-xs md:text-sm"
+    >
+      <Bell className="h-4 w-4 shrink-0 text-primary" />
+      <Link href="/calendar" className="truncate hover:underline">
+        {nextSubject}: {next.type} {describeDaysLeft(getDaysLeft(next))}
+        {banner.length > 1 && ` and ${banner.length - 1} more`}
+      </Link>
+      <Button variant="ghost" size="sm" onClick={handleDismiss} className="h-6 w-6 p-0 shrink-0" aria-label="Dismiss">
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  )
+}
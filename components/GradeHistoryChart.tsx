@@ -2,8 +2,19 @@
 
 import { useMemo } from "react"
 import type { Grade } from "../types/grades"
-import { Line, LineChart, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ReferenceLine, Scatter } from "recharts"
-import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { GERMAN_SCALE, formatGrade, type GradingScale } from "../utils/gradingScales"
+import {
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  ResponsiveContainer,
+  ReferenceLine,
+  Scatter,
+  type DotProps,
+} from "recharts"
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart"
 
 interface GradeHistoryChartProps {
   grades: Grade[]
@@ -11,6 +22,14 @@ interface GradeHistoryChartProps {
   showGrid?: boolean
   showAxis?: boolean
   className?: string
+  scale?: GradingScale
+  projections?: Grade[] // Planned grades, drawn dashed after the real ones
+}
+
+// Props recharts passes when rendering a dot of the grade or projected line
+type GradeDotProps = DotProps & {
+  index: number
+  payload: { value?: number; weight: number }
 }
 
 export function GradeHistoryChart({
@@ -19,6 +38,8 @@ export function GradeHistoryChart({
   showGrid = true,
   showAxis = true,
   className = "",
+  scale = GERMAN_SCALE,
+  projections = [],
 }: GradeHistoryChartProps) {
   // Sort grades by date and prepare data for the chart
   const chartData = useMemo(() => {
@@ -30,13 +51,27 @@ export function GradeHistoryChart({
         index,
         date: grade.date,
         value: grade.value,
+        notation: grade.notation,
         type: grade.type,
         weight: grade.weight || 1.0, // Default to 1.0 if weight is not defined
       }))
   }, [grades])
 
-  // If no grades, show empty state
-  if (grades.length === 0) {
+  // Projected points continue the dashed line from the last real grade
+  const projectionData = useMemo(
+    () =>
+      projections.map((grade, index) => ({
+        index: chartData.length + index,
+        date: grade.date,
+        projected: grade.value,
+        type: grade.type,
+        weight: grade.weight || 1.0,
+      })),
+    [projections, chartData],
+  )
+
+  // If no grades and nothing planned, show empty state
+  if (grades.length === 0 && projections.length === 0) {
     return (
       <div className={`flex items-center justify-center h-full bg-muted/20 rounded-md ${className}`}>
         <p className="text-xs sm:text-sm text-muted-foreground">No grade data available</p>
@@ -45,7 +80,7 @@ export function GradeHistoryChart({
   }
 
   // If only one grade, add a duplicate point to show a line
-  if (grades.length === 1) {
+  if (grades.length === 1 && projections.length === 0) {
     chartData.push({
       ...chartData[0],
       index: 1,
@@ -74,7 +109,15 @@ export function GradeHistoryChart({
       >
         <ResponsiveContainer width="100%" height="100%">
           <LineChart
-            data={chartData}
+            data={
+              projectionData.length > 0 && chartData.length > 0
+                ? [
+                    ...chartData.slice(0, -1),
+                    { ...chartData[chartData.length - 1], projected: chartData[chartData.length - 1].value },
+                    ...projectionData,
+                  ]
+                : [...chartData, ...projectionData]
+            }
             margin={{
               top: 5,
               right: 10,
@@ -100,52 +143,95 @@ export function GradeHistoryChart({
                     return value
                   }}
                 />
-                <YAxis
-                  domain={[1, 6]}
-                  tick={{ fontSize: 10 }}
-                  tickMargin={8}
-                  stroke="hsl(var(--muted-foreground))"
-                  reversed // Reverse the axis so 1 (best) is at the top
-                />
               </>
             )}
 
+            <YAxis
+              hide={!showAxis}
+              domain={[scale.min, scale.max]}
+              tick={{ fontSize: 10 }}
+              tickMargin={8}
+              stroke="hsl(var(--muted-foreground))"
+              reversed={!scale.higherIsBetter} // Keep the best grade at the top
+              tickFormatter={(value) => scale.format(value)}
+            />
+
             <ChartTooltip
-              content={
-                <ChartTooltipContent
-                  className="bg-card border-border shadow-lg"
-                  content={({ payload }) => {
-                    if (payload && payload.length) {
-                      const data = payload[0].payload
-                      return (
-                        <div className="space-y-1 p-1">
-                          <p className="text-xs sm:text-sm font-medium">{data.date}</p>
-                          <p className="text-xs text-muted-foreground">{data.type}</p>
-                          <p className="text-xs sm:text-sm font-bold">Grade: {data.value}</p>
-                          <p className="text-xs text-muted-foreground">Weight: {data.weight}x</p>
-                        </div>
-                      )
-                    }
-                    return null
-                  }}
-                />
-              }
+              content={({ active, payload }) => {
+                if (!active || !payload?.length) return null
+
+                // ChartTooltipContent renders its own rows, so only its box is copied
+                const data = payload[0].payload
+                return (
+                  <div className="rounded-lg border border-border bg-card px-2.5 py-1.5 shadow-lg">
+                    {data.value === undefined ? (
+                      <div className="space-y-1 p-1">
+                        <p className="text-xs sm:text-sm font-medium">{data.date}</p>
+                        <p className="text-xs text-muted-foreground">{data.type}</p>
+                        <p className="text-xs sm:text-sm font-bold">Needed: {scale.format(data.projected)}</p>
+                        <p className="text-xs text-muted-foreground">Weight: {data.weight}x</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-1 p-1">
+                        <p className="text-xs sm:text-sm font-medium">{data.date}</p>
+                        <p className="text-xs text-muted-foreground">{data.type}</p>
+                        <p className="text-xs sm:text-sm font-bold">
+                          Grade: {formatGrade(data, scale)}
+                          {data.notation && (
+                            <span className="font-normal text-muted-foreground"> ({scale.format(data.value)})</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground">Weight: {data.weight}x</p>
+                      </div>
+                    )}
+                  </div>
+                )
+              }}
             />
 
             {/* Reference lines for grade thresholds */}
-            <ReferenceLine y={1.5} stroke="hsl(var(--success))" strokeDasharray="3 3" />
-            <ReferenceLine y={3.5} stroke="hsl(var(--warning))" strokeDasharray="3 3" />
-            <ReferenceLine y={4.5} stroke="hsl(var(--destructive))" strokeDasharray="3 3" />
+            {scale.referenceLines.map((line) => (
+              <ReferenceLine key={line.value} y={line.value} stroke={`hsl(var(--${line.tone}))`} strokeDasharray="3 3" />
+            ))}
 
             <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
 
+            {projectionData.length > 0 && (
+              <Line
+                type="monotone"
+                dataKey="projected"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                strokeOpacity={0.6}
+                dot={({ cx, cy, payload, index }: GradeDotProps) => {
+                  // The first point of the dashed line is the last real grade
+                  if (payload.value !== undefined) return <g key={index} />
+                  return (
+                    <circle
+                      key={index}
+                      cx={cx}
+                      cy={cy}
+                      r={(payload.weight || 1) * getBaseDotSize()}
+                      fill="hsl(var(--background))"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      strokeDasharray="3 2"
+                    />
+                  )
+                }}
+              />
+            )}
+
             {/* Scatter plot for dots with size based on weight */}
             <Scatter
               data={chartData}
               fill="hsl(var(--primary))"
               line={false}
-              shape={(props: any) => {
-                const { cx, cy, payload } = props
+              shape={(props: unknown) => {
+                // recharts types scatter points loosely, they are the grade dots
+                const { cx, cy, payload } = props as GradeDotProps
+                if (payload.value === undefined) return <g />
                 const baseSize = getBaseDotSize()
                 const size = (payload.weight || 1) * baseSize // Base size on weight
 
@@ -4,32 +4,34 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import type { Grade, GradeType } from "../types/grades"
+import type { Grade, GradeType, GradeTypeConfig } from "../types/grades"
+import { DEFAULT_GRADE_TYPES, generateId } from "../utils/storageUtils"
+import { GERMAN_SCALE, type GradingScale } from "../utils/gradingScales"
+import { parseGradeInput } from "../utils/tendencyUtils"
+import { useSettings } from "@/hooks/use-settings"
 import { PlusCircle, Info } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 interface GradeInputProps {
   onAddGrade: (grade: Grade) => void
+  gradeTypes?: GradeTypeConfig[]
+  scale?: GradingScale
 }
 
-// Define weight for each grade type
-const GRADE_WEIGHTS: Record<GradeType, number> = {
-  Test: 2.0, // Tests count double
-  "Oral Exam": 1.0,
-  Homework: 1.0,
-  Project: 1.0,
-}
-
-export function GradeInput({ onAddGrade }: GradeInputProps) {
+export function GradeInput({ onAddGrade, gradeTypes = DEFAULT_GRADE_TYPES, scale = GERMAN_SCALE }: GradeInputProps) {
   const [grade, setGrade] = useState("")
-  const [type, setType] = useState<GradeType>("Test")
+  const [type, setType] = useState<GradeType>(gradeTypes[0]?.name ?? "Test")
   const [error, setError] = useState("")
   const [isLoading, setIsLoading] = useState(false)
+  const { tendencyOffset } = useSettings()
+
+  // Fall back to the first type if the selected one was removed from the configuration
+  const selectedType = gradeTypes.find((t) => t.name === type) ?? gradeTypes[0]
 
   const handleAddGrade = async () => {
-    const gradeValue = Number.parseInt(grade)
-    if (isNaN(gradeValue) || gradeValue < 1 || gradeValue > 6) {
-      setError("Please enter a valid grade between 1 and 6")
+    const parsed = parseGradeInput(grade, scale, tendencyOffset)
+    if (parsed.error !== undefined) {
+      setError(parsed.error)
       return
     }
 
@@ -39,10 +41,12 @@ export function GradeInput({ onAddGrade }: GradeInputProps) {
     await new Promise((resolve) => setTimeout(resolve, 300))
 
     const newGrade: Grade = {
-      value: gradeValue,
-      type,
+      id: generateId(),
+      value: parsed.value,
+      type: selectedType?.name ?? type,
       date: new Date().toISOString().split("T")[0],
-      weight: GRADE_WEIGHTS[type], // Assign weight based on type
+      weight: selectedType?.weight ?? 1.0, // Assign weight based on the subject's type config
+      ...(parsed.notation && { notation: parsed.notation }),
     }
 
     console.log("Adding grade:", newGrade)
@@ -56,10 +60,15 @@ export function GradeInput({ onAddGrade }: GradeInputProps) {
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row gap-3">
         <Input
-          type="number"
+          type="text"
+          inputMode={scale.id === "letter" || scale.supportsTendency ? "text" : "decimal"}
           value={grade}
           onChange={(e) => setGrade(e.target.value)}
-          placeholder="Enter grade (1-6)"
+          placeholder={
+            scale.supportsTendency
+              ? `Enter grade (${scale.format(scale.min)}-${scale.format(scale.max)}, e.g. 2- or 2-3)`
+              : `Enter grade (${scale.format(scale.min)}-${scale.format(scale.max)})`
+          }
           className="flex-grow bg-background border-border"
           onKeyDown={(e) => {
             if (e.key === "Enter") {
@@ -68,15 +77,16 @@ export function GradeInput({ onAddGrade }: GradeInputProps) {
           }}
         />
         <div className="relative flex-grow-0 w-full sm:w-auto">
-          <Select value={type} onValueChange={(value: GradeType) => setType(value)}>
+          <Select value={selectedType?.name} onValueChange={(value: GradeType) => setType(value)}>
             <SelectTrigger className="w-full bg-background border-border">
               <SelectValue placeholder="Select grade type" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="Test">Test (Weight: 2.0)</SelectItem>
-              <SelectItem value="Oral Exam">Oral Exam (Weight: 1.0)</SelectItem>
-              <SelectItem value="Homework">Homework (Weight: 1.0)</SelectItem>
-              <SelectItem value="Project">Project (Weight: 1.0)</SelectItem>
+              {gradeTypes.map((gradeType) => (
+                <SelectItem key={gradeType.name} value={gradeType.name}>
+                  {gradeType.name} (Weight: {gradeType.weight.toFixed(1)})
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
           <TooltipProvider>
@@ -87,7 +97,7 @@ export function GradeInput({ onAddGrade }: GradeInputProps) {
                 </Button>
               </TooltipTrigger>
               <TooltipContent>
-                <p className="text-xs">Tests count double in your average grade calculation</p>
+                <p className="text-xs">Grade types and their weights can be configured for each subject</p>
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -0,0 +1,196 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Grade, PlannedAssessment, Subject } from "../types/grades"
+import { calculateRequiredGrade, generateId, getGradeTypes, toProjectedGrades } from "../utils/storageUtils"
+import type { GradingScale } from "../utils/gradingScales"
+import { PlusCircle, Target, Trash2 } from "lucide-react"
+
+interface GradePlannerProps {
+  subject: Subject
+  scale: GradingScale
+  onProjectionsChange: (projections: Grade[]) => void
+}
+
+export function GradePlanner({ subject, scale, onProjectionsChange }: GradePlannerProps) {
+  const gradeTypes = getGradeTypes(subject.weighting)
+  const [target, setTarget] = useState("")
+  const [planned, setPlanned] = useState<PlannedAssessment[]>(() => [
+    { id: generateId(), type: gradeTypes[0]?.name ?? "Test", weight: gradeTypes[0]?.weight ?? 1.0 },
+  ])
+
+  const targetValue = scale.parse(target)
+  const isTargetValid = targetValue !== null && targetValue >= scale.min && targetValue <= scale.max
+
+  const requirement = useMemo(
+    () =>
+      isTargetValid
+        ? calculateRequiredGrade(subject.grades, planned, targetValue, subject.weighting, scale)
+        : null,
+    [subject, planned, targetValue, isTargetValid, scale],
+  )
+
+  // Show what the planned grades would look like on the chart
+  const projections = useMemo(() => {
+    if (!requirement || requirement.status === "no-effect") return []
+    const best = scale.higherIsBetter ? scale.max : scale.min
+    return toProjectedGrades(planned, requirement.requiredGrade ?? best).map((grade, index) => ({
+      ...grade,
+      date: grade.date || `Planned ${index + 1}`,
+    }))
+  }, [requirement, planned, scale])
+
+  useEffect(() => {
+    onProjectionsChange(projections)
+  }, [projections, onProjectionsChange])
+
+  const updatePlanned = (id: string, patch: Partial<PlannedAssessment>) => {
+    setPlanned((prev) => prev.map((assessment) => (assessment.id === id ? { ...assessment, ...patch } : assessment)))
+  }
+
+  const assessmentLabel =
+    planned.length === 1 ? "the next assessment" : `each of the ${planned.length} planned assessments`
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="p-4 pb-2">
+        <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+          <Target className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+          What Do I Need?
+        </CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          Enter the average you want to reach and your upcoming assessments
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        <div className="grid gap-2 max-w-xs">
+          <Label htmlFor="planner-target">Target average</Label>
+          <Input
+            id="planner-target"
+            type="text"
+            inputMode={scale.id === "letter" ? "text" : "decimal"}
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={`e.g. ${scale.format(scale.passThreshold)}`}
+            className="bg-background border-border"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_5rem_8rem_2rem] gap-2 px-1">
+            <Label className="text-xs text-muted-foreground">Upcoming</Label>
+            <Label className="text-xs text-muted-foreground">Weight</Label>
+            <Label className="text-xs text-muted-foreground">Date</Label>
+          </div>
+          {planned.map((assessment) => (
+            <div key={assessment.id} className="grid grid-cols-[1fr_5rem_8rem_2rem] gap-2 items-center">
+              <Select
+                value={assessment.type}
+                onValueChange={(type) =>
+                  updatePlanned(assessment.id, {
+                    type,
+                    weight: gradeTypes.find((t) => t.name === type)?.weight ?? assessment.weight,
+                  })
+                }
+              >
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {gradeTypes.map((gradeType) => (
+                    <SelectItem key={gradeType.name} value={gradeType.name}>
+                      {gradeType.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                step="0.5"
+                min={0}
+                value={assessment.weight}
+                onChange={(e) => {
+                  const weight = Number.parseFloat(e.target.value)
+                  updatePlanned(assessment.id, { weight: isNaN(weight) || weight < 0 ? 0 : weight })
+                }}
+                className="bg-background border-border"
+              />
+              <Input
+                type="date"
+                value={assessment.date ?? ""}
+                onChange={(e) => updatePlanned(assessment.id, { date: e.target.value || undefined })}
+                className="bg-background border-border"
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPlanned((prev) => prev.filter((a) => a.id !== assessment.id))}
+                className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              setPlanned((prev) => [
+                ...prev,
+                { id: generateId(), type: gradeTypes[0]?.name ?? "Test", weight: gradeTypes[0]?.weight ?? 1.0 },
+              ])
+            }
+            className="flex items-center gap-2"
+          >
+            <PlusCircle className="h-4 w-4" />
+            Add Assessment
+          </Button>
+        </div>
+
+        {target && !isTargetValid && (
+          <p className="text-destructive text-xs sm:text-sm">
+            Please enter a target between {scale.format(scale.min)} and {scale.format(scale.max)}
+          </p>
+        )}
+
+        {requirement && (
+          <div className="rounded-md bg-muted/30 p-3 text-xs md:text-sm">
+            {requirement.status === "reachable" && requirement.requiredGrade !== null && (
+              <p>
+                You need <span className="font-bold">{scale.format(requirement.requiredGrade)}</span> or better on{" "}
+                {assessmentLabel} to reach {scale.formatAverage(targetValue!)}
+                {requirement.requiredValue !== null && requirement.requiredValue !== requirement.requiredGrade && (
+                  <span className="text-muted-foreground"> (exactly {requirement.requiredValue})</span>
+                )}
+                .
+              </p>
+            )}
+            {requirement.status === "guaranteed" && (
+              <p>
+                You reach {scale.formatAverage(targetValue!)} even with the worst grade on {assessmentLabel}.
+              </p>
+            )}
+            {requirement.status === "unreachable" && (
+              <p className="text-destructive">
+                {scale.formatAverage(targetValue!)} can no longer be reached. Even with the best grade on{" "}
+                {assessmentLabel}, your average would be {scale.formatAverage(requirement.bestAverage)}.
+              </p>
+            )}
+            {requirement.status === "no-effect" && (
+              <p className="text-muted-foreground">
+                {planned.length === 0
+                  ? "Add an upcoming assessment to see what you need."
+                  : "These assessments do not change the average. Check their weights and categories."}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { useTerms } from "@/hooks/use-terms"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { GradeHistoryChart } from "./GradeHistoryChart"
+import type { Subject } from "../types/grades"
+import type { ReportRange } from "../types/report"
+import { calculateOverallAverage, getSubjectsFromStorage } from "../utils/storageUtils"
+import { formatGrade, getGradeColor, getGradingScale, getSubjectScale } from "../utils/gradingScales"
+import { describeReportRange, getReportSubjects } from "../utils/reportUtils"
+import { Printer } from "lucide-react"
+
+const ALL_RANGE = "all"
+const DATES_RANGE = "dates"
+
+// Printable overview of the chosen subjects over a term or date range
+export function GradeReport() {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const { terms, selectedTerm } = useTerms()
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [range, setRange] = useState<ReportRange>({ type: "all" })
+  // Subjects left out of the report; archived subjects start out excluded
+  const [excludedIds, setExcludedIds] = useState<string[] | null>(null)
+
+  useEffect(() => {
+    const loadSubjects = async () => {
+      const savedSubjects = await getSubjectsFromStorage(user?.id, user?.syncEnabled)
+      setSubjects(savedSubjects)
+      setExcludedIds(
+        (prev) => prev ?? savedSubjects.filter((subject) => subject.archived).map((subject) => subject.id),
+      )
+    }
+
+    loadSubjects()
+    window.addEventListener("subjectsUpdated", loadSubjects)
+    return () => window.removeEventListener("subjectsUpdated", loadSubjects)
+  }, [user])
+
+  // Start with the term shown on the dashboard
+  useEffect(() => {
+    if (selectedTerm) setRange({ type: "term", termId: selectedTerm.id })
+  }, [selectedTerm?.id])
+
+  const overallScale = getGradingScale(settings.gradingScale)
+  const reportSubjects = useMemo(
+    () =>
+      getReportSubjects(
+        subjects.filter((subject) => !(excludedIds ?? []).includes(subject.id)),
+        range,
+        terms,
+      ),
+    [subjects, excludedIds, range, terms],
+  )
+  const overallAverage = calculateOverallAverage(reportSubjects, overallScale)
+
+  const rangeValue = range.type === "term" ? range.termId : range.type === "dates" ? DATES_RANGE : ALL_RANGE
+  const handleRangeChange = (value: string) => {
+    if (value === ALL_RANGE) {
+      setRange({ type: "all" })
+    } else if (value === DATES_RANGE) {
+      setRange({ type: "dates", from: "", to: "" })
+    } else {
+      setRange({ type: "term", termId: value })
+    }
+  }
+
+  const toggleSubject = (subjectId: string, included: boolean) => {
+    setExcludedIds((prev) =>
+      included ? (prev ?? []).filter((id) => id !== subjectId) : [...(prev ?? []), subjectId],
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-card border-border shadow-lg print:hidden">
+        <CardHeader>
+          <CardTitle className="text-lg md:text-xl">Report Options</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Range</Label>
+              <Select value={rangeValue} onValueChange={handleRangeChange}>
+                <SelectTrigger className="bg-background border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_RANGE}>All grades</SelectItem>
+                  {terms.map((term) => (
+                    <SelectItem key={term.id} value={term.id}>
+                      {term.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={DATES_RANGE}>Custom dates</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {range.type === "dates" && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="report-from" className="text-xs">
+                    From
+                  </Label>
+                  <Input
+                    id="report-from"
+                    type="date"
+                    value={range.from}
+                    onChange={(e) => setRange({ ...range, from: e.target.value })}
+                    className="bg-background border-border"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-to" className="text-xs">
+                    To
+                  </Label>
+                  <Input
+                    id="report-to"
+                    type="date"
+                    value={range.to}
+                    onChange={(e) => setRange({ ...range, to: e.target.value })}
+                    className="bg-background border-border"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs">Subjects</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+              {subjects.map((subject) => (
+                <div key={subject.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`report-${subject.id}`}
+                    checked={!(excludedIds ?? []).includes(subject.id)}
+                    onCheckedChange={(checked) => toggleSubject(subject.id, checked === true)}
+                  />
+                  <Label htmlFor={`report-${subject.id}`} className="text-xs md:text-sm font-normal truncate">
+                    {subject.name}
+                    {subject.archived && <span className="text-muted-foreground"> (archived)</span>}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={() => window.print()} className="flex items-center gap-2">
+            <Printer className="h-4 w-4" />
+            Print or Save as PDF
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6 print:space-y-4">
+        <div className="flex flex-wrap items-end justify-between gap-2 border-b border-border pb-4">
+          <div>
+            <h2 className="text-xl md:text-2xl font-semibold">Grade Report</h2>
+            <p className="text-sm text-muted-foreground">
+              {describeReportRange(range, terms)} · Created {new Date().toLocaleDateString()}
+            </p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-muted-foreground">Overall average</p>
+            <p className="text-2xl font-bold">{overallAverage !== null ? overallScale.formatAverage(overallAverage) : "–"}</p>
+          </div>
+        </div>
+
+        {reportSubjects.length === 0 && (
+          <p className="text-sm text-muted-foreground">Choose at least one subject to include in the report.</p>
+        )}
+
+        {reportSubjects.map((subject) => {
+          const scale = getSubjectScale(subject, settings.gradingScale)
+          const grades = [...subject.grades].sort((a, b) => a.date.localeCompare(b.date))
+          return (
+            <section key={subject.id} className="space-y-3 break-inside-avoid">
+              <div className="flex items-center justify-between gap-2">
+                <h3 className="text-lg font-semibold">{subject.name}</h3>
+                {grades.length > 0 && subject.averageGrade !== undefined ? (
+                  <Badge className={`${getGradeColor(subject.averageGrade, scale)} text-white`}>
+                    Ø {scale.formatAverage(subject.averageGrade)}
+                  </Badge>
+                ) : (
+                  <span className="text-sm text-muted-foreground">No grades</span>
+                )}
+              </div>
+
+              {grades.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-4">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="h-8">Date</TableHead>
+                        <TableHead className="h-8">Type</TableHead>
+                        <TableHead className="h-8">Grade</TableHead>
+                        <TableHead className="h-8">Weight</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {grades.map((grade) => (
+                        <TableRow key={grade.id}>
+                          <TableCell className="py-1 text-xs">{grade.date}</TableCell>
+                          <TableCell className="py-1 text-xs">
+                            {grade.type}
+                            {grade.note && <span className="text-muted-foreground"> – {grade.note}</span>}
+                          </TableCell>
+                          <TableCell className="py-1 text-xs font-medium">{formatGrade(grade, scale)}</TableCell>
+                          <TableCell className="py-1 text-xs">{grade.weight || 1.0}x</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <GradeHistoryChart grades={grades} height={140} scale={scale} />
+                </div>
+              )}
+            </section>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
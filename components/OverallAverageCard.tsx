@@ -0,0 +1,158 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { Subject } from "../types/grades"
+import {
+  DEFAULT_CREDIT_WEIGHT,
+  calculateOverallAverage,
+  calculateSubjectContributions,
+  updateSubjectCreditWeight,
+} from "../utils/storageUtils"
+import { getGradeColor, getSubjectScale, type GradingScale } from "../utils/gradingScales"
+import { ChevronDown, ChevronUp, Sigma } from "lucide-react"
+
+interface OverallAverageCardProps {
+  subjects: Subject[]
+  scale: GradingScale
+}
+
+export function OverallAverageCard({ subjects, scale }: OverallAverageCardProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const [showBreakdown, setShowBreakdown] = useState(false)
+  // Weights are edited as text and saved when the input loses focus
+  const [weights, setWeights] = useState<Record<string, string>>({})
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    setWeights(
+      Object.fromEntries(
+        subjects.map((subject) => [subject.id, String(subject.creditWeight ?? DEFAULT_CREDIT_WEIGHT)]),
+      ),
+    )
+  }, [subjects])
+
+  const overallAverage = calculateOverallAverage(subjects, scale)
+  const contributions = calculateSubjectContributions(subjects, scale)
+  const countedSubjects = contributions.filter((c) => c.average !== null).length
+
+  const saveWeight = async (subject: Subject) => {
+    const creditWeight = Number.parseFloat((weights[subject.id] ?? "").replace(",", "."))
+    if ((subject.creditWeight ?? DEFAULT_CREDIT_WEIGHT) === creditWeight) return
+
+    if (isNaN(creditWeight) || creditWeight <= 0) {
+      setError(`Weight of ${subject.name} must be a positive number`)
+      return
+    }
+
+    const success = await updateSubjectCreditWeight(subject.id, creditWeight, user?.id, user?.syncEnabled)
+    setError(success ? "" : `Failed to save the weight of ${subject.name}`)
+  }
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="p-4 pb-2">
+        <div className="flex justify-between items-start gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg md:text-xl flex items-center gap-2">
+              <Sigma className="h-4 w-4 md:h-5 md:w-5 text-primary" />
+              Overall Average
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              {countedSubjects > 0
+                ? `Weighted across ${countedSubjects} subject${countedSubjects !== 1 ? "s" : ""} in ${scale.name}`
+                : "Add grades to see your overall average"}
+            </CardDescription>
+          </div>
+          {overallAverage !== null && (
+            <Badge className={`${getGradeColor(overallAverage, scale)} text-white text-base md:text-lg`}>
+              {scale.formatAverage(overallAverage)}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setShowBreakdown((prev) => !prev)}
+          className="flex items-center gap-1 px-2 text-xs md:text-sm"
+        >
+          {showBreakdown ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          {showBreakdown ? "Hide" : "Show"} per-subject contribution
+        </Button>
+
+        {showBreakdown && (
+          <div className="mt-2 space-y-2">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted/50 hover:bg-muted/70">
+                    <TableHead>Subject</TableHead>
+                    <TableHead>Average</TableHead>
+                    <TableHead>Weight</TableHead>
+                    <TableHead>Share</TableHead>
+                    <TableHead className="text-right">Contribution</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contributions.map(({ subject, average, effectiveShare, contribution }) => {
+                    const subjectScale = getSubjectScale(subject, settings.gradingScale)
+                    return (
+                      <TableRow key={subject.id} className="hover:bg-muted/30">
+                        <TableCell className="font-medium text-xs md:text-sm">{subject.name}</TableCell>
+                        <TableCell className="text-xs md:text-sm">
+                          {average !== null ? scale.formatAverage(average) : "–"}
+                          {/* Show the subject's own value when it had to be converted */}
+                          {average !== null && subjectScale.id !== scale.id && subject.averageGrade !== undefined && (
+                            <span className="text-muted-foreground">
+                              {" "}
+                              ({subjectScale.formatAverage(subject.averageGrade)})
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.5"
+                            min={0}
+                            value={weights[subject.id] ?? ""}
+                            onChange={(e) => setWeights((prev) => ({ ...prev, [subject.id]: e.target.value }))}
+                            onBlur={() => saveWeight(subject)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") {
+                                saveWeight(subject)
+                              }
+                            }}
+                            className="h-7 w-20 bg-background border-border text-xs md:text-sm"
+                          />
+                        </TableCell>
+                        <TableCell className="text-xs md:text-sm">
+                          {average !== null ? `${(effectiveShare * 100).toFixed(0)}%` : "no grades"}
+                        </TableCell>
+                        <TableCell className="text-right text-xs md:text-sm">
+                          {average !== null ? contribution.toFixed(2) : "–"}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Use the weight to let subjects count more, e.g. 2 for Hauptfächer or the hours per week.
+            </p>
+            {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import type { Subject } from "@/types/grades"
+import {
+  REMINDER_LEAD_DAYS,
+  getNotificationPermission,
+  requestNotificationPermission,
+  type ReminderPermission,
+} from "@/utils/reminderUtils"
+import { saveSettings } from "@/utils/settingsUtils"
+import { getSubjectsFromStorage } from "@/utils/storageUtils"
+import { Bell } from "lucide-react"
+
+const DEFAULT_LEAD = "default"
+
+const leadDaysLabel = (days: number) => `${days} day${days !== 1 ? "s" : ""} before`
+
+// Exam reminder settings: on or off, and how many days ahead, globally and by subject
+export function ReminderSettings() {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const [subjects, setSubjects] = useState<Subject[]>([])
+  const [permission, setPermission] = useState<ReminderPermission>("default")
+
+  useEffect(() => {
+    setPermission(getNotificationPermission())
+
+    const loadSubjects = async () => {
+      const savedSubjects = await getSubjectsFromStorage(user?.id, user?.syncEnabled)
+      setSubjects(savedSubjects.filter((subject) => !subject.archived))
+    }
+
+    loadSubjects()
+    window.addEventListener("subjectsUpdated", loadSubjects)
+    return () => window.removeEventListener("subjectsUpdated", loadSubjects)
+  }, [user])
+
+  const handleToggle = async (checked: boolean) => {
+    saveSettings({ remindersEnabled: checked })
+    if (checked && permission === "default") {
+      setPermission(await requestNotificationPermission())
+    }
+  }
+
+  const handleSubjectLeadChange = (subjectId: string, value: string) => {
+    const { [subjectId]: _, ...subjectReminderLeadDays } = settings.subjectReminderLeadDays ?? {}
+    if (value !== DEFAULT_LEAD) subjectReminderLeadDays[subjectId] = Number(value)
+    saveSettings({ subjectReminderLeadDays })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-1">
+          <div className="flex items-center">
+            <Bell className="h-4 w-4 mr-2 text-primary" />
+            <Label htmlFor="reminders-toggle" className="font-medium">
+              Exam Reminders
+            </Label>
+          </div>
+          <p className="text-sm text-muted-foreground">Get notified before assessments planned in the calendar</p>
+        </div>
+        <Switch id="reminders-toggle" checked={settings.remindersEnabled} onCheckedChange={handleToggle} />
+      </div>
+
+      {settings.remindersEnabled && (
+        <>
+          {permission === "default" && (
+            <div className="flex items-center justify-between gap-2 rounded-md border border-border bg-muted/30 p-3">
+              <p className="text-xs text-muted-foreground">Notifications are not allowed yet.</p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={async () => setPermission(await requestNotificationPermission())}
+              >
+                Allow
+              </Button>
+            </div>
+          )}
+          {(permission === "denied" || permission === "unsupported") && (
+            <p className="rounded-md border border-border bg-muted/30 p-3 text-xs text-muted-foreground">
+              {permission === "denied"
+                ? "Notifications are blocked in this browser."
+                : "This browser cannot show notifications."}{" "}
+              Reminders appear as a banner at the top of the app instead.
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Reminders arrive while the app is closed only where the browser allows background checks, usually
+            for the installed app. Otherwise they are shown the next time you open the app.
+          </p>
+
+          <div className="space-y-1">
+            <Label htmlFor="reminder-lead" className="text-xs">
+              Remind me
+            </Label>
+            <Select
+              value={String(settings.reminderLeadDays)}
+              onValueChange={(value) => saveSettings({ reminderLeadDays: Number(value) })}
+            >
+              <SelectTrigger id="reminder-lead" className="bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REMINDER_LEAD_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {leadDaysLabel(days)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {subjects.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-xs">By subject</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {subjects.map((subject) => (
+                  <div key={subject.id} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                    <span className="text-sm truncate">{subject.name}</span>
+                    <Select
+                      value={String(settings.subjectReminderLeadDays?.[subject.id] ?? DEFAULT_LEAD)}
+                      onValueChange={(value) => handleSubjectLeadChange(subject.id, value)}
+                    >
+                      <SelectTrigger className="h-8 w-36 shrink-0 bg-background border-border">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_LEAD}>Default</SelectItem>
+                        {REMINDER_LEAD_DAYS.map((days) => (
+                          <SelectItem key={days} value={String(days)}>
+                            {leadDaysLabel(days)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import type { SnapshotInfo } from "@/types/repository"
+import { downloadFile, fileDateStamp } from "@/utils/fileUtils"
+import { getCorruptedData } from "@/utils/gradeRepository"
+import { listSnapshots } from "@/utils/snapshotUtils"
+import { getStorageFailure } from "@/utils/storageFailure"
+import {
+  hasStoredSubjects,
+  keepStoredSubjects,
+  restoreSnapshot,
+  startWithDefaultSubjects,
+} from "@/utils/storageUtils"
+
+// Offers the latest backup when saved subjects could not be read. Changes
+// are not saved until the user restores a backup, starts over or keeps the
+// subjects that can be read now.
+export function RestorePrompt() {
+  const { user } = useAuth()
+  const [failure, setFailure] = useState<string | null>(null)
+  const [isOpen, setIsOpen] = useState(false)
+  const [latest, setLatest] = useState<SnapshotInfo | null>(null)
+  const [corruptedData, setCorruptedData] = useState<string | null>(null)
+  const [canKeep, setCanKeep] = useState(false)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const handleFailure = async () => {
+      const message = getStorageFailure()
+      setFailure(message)
+      setIsOpen(message !== null)
+      if (message) {
+        const [snapshot] = await listSnapshots()
+        setLatest(snapshot ?? null)
+        setCorruptedData(getCorruptedData())
+        setCanKeep(await hasStoredSubjects())
+      }
+    }
+
+    handleFailure()
+    window.addEventListener("storageFailure", handleFailure)
+    return () => window.removeEventListener("storageFailure", handleFailure)
+  }, [])
+
+  const handleRestore = async () => {
+    if (!latest) return
+    setIsRestoring(true)
+    const success = await restoreSnapshot(latest.id, user?.id, user?.syncEnabled)
+    setIsRestoring(false)
+    setError(success ? "" : "Failed to restore the backup. You can pick another one in the settings.")
+  }
+
+  const handleStartOver = async () => {
+    setIsRestoring(true)
+    const success = await startWithDefaultSubjects(user?.id, user?.syncEnabled)
+    setIsRestoring(false)
+    setError(success ? "" : "Failed to reset your subjects")
+  }
+
+  const handleKeep = async () => {
+    setIsRestoring(true)
+    const success = await keepStoredSubjects()
+    setIsRestoring(false)
+    setError(success ? "" : "Your subjects could not be read")
+  }
+
+  const handleDownload = () => {
+    if (corruptedData) {
+      downloadFile(corruptedData, `grades-unreadable-${fileDateStamp()}.json`, "application/json")
+    }
+  }
+
+  return (
+    <AlertDialog open={failure !== null && isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Your grades could not be loaded</AlertDialogTitle>
+          <AlertDialogDescription>
+            {failure}.{" "}
+            {latest
+              ? `Restore the backup from ${new Date(latest.createdAt).toLocaleString()} with ${latest.subjectCount} subjects and ${latest.gradeCount} grades?`
+              : "No backup is available on this device."}{" "}
+            {canKeep
+              ? "Your subjects can be read again, so you can also keep them. Changes are not saved until you decide."
+              : "Changes are not saved until you restore a backup or start over."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {corruptedData && (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            A copy of the unreadable data was kept.{" "}
+            <Button variant="link" className="h-auto p-0 text-xs sm:text-sm" onClick={handleDownload}>
+              Download it
+            </Button>{" "}
+            before starting over if you want to recover it by hand.
+          </p>
+        )}
+        {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isRestoring}>Not now</AlertDialogCancel>
+          {canKeep ? (
+            <Button variant="outline" onClick={handleKeep} disabled={isRestoring}>
+              Keep Current Subjects
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={handleStartOver} disabled={isRestoring}>
+              Start Over
+            </Button>
+          )}
+          {latest && (
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the restore has finished
+                e.preventDefault()
+                handleRestore()
+              }}
+              disabled={isRestoring}
+            >
+              {isRestoring ? "Restoring..." : "Restore Backup"}
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
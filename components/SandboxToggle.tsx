@@ -0,0 +1,37 @@
+"use client"
+
+import { useSandbox } from "@/contexts/SandboxContext"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { FlaskConical } from "lucide-react"
+
+export function SandboxToggle() {
+  const { isEnabled, setEnabled, hypotheticalCount, discardAll } = useSandbox()
+
+  return (
+    <div
+      className={`flex flex-wrap items-center gap-2 rounded-md px-2 py-1 text-xs md:text-sm ${
+        isEnabled ? "bg-primary/10 border border-dashed border-primary" : ""
+      }`}
+    >
+      <FlaskConical className="h-4 w-4 text-primary" />
+      <Label htmlFor="sandbox-toggle" className="font-medium">
+        What-if mode
+      </Label>
+      <Switch id="sandbox-toggle" checked={isEnabled} onCheckedChange={setEnabled} />
+      {isEnabled && (
+        <>
+          <span className="text-muted-foreground">
+            {hypotheticalCount} hypothetical grade{hypotheticalCount !== 1 ? "s" : ""}, not saved
+          </span>
+          {hypotheticalCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={discardAll} className="h-7 px-2 text-xs">
+              Discard all
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
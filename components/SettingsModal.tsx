@@ -5,8 +5,19 @@ import { useAuth } from "@/contexts/AuthContext"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Label } from "@/components/ui/label"
 import { Switch } from "@/components/ui/switch"
-import { AlertCircle, CloudIcon as CloudSync, WifiOff } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, CloudIcon as CloudSync, Diff, Ruler, WifiOff } from "lucide-react"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { BackupList } from "@/components/BackupList"
+import { DataTransfer } from "@/components/DataTransfer"
+import { ReminderSettings } from "@/components/ReminderSettings"
+import { useSettings } from "@/hooks/use-settings"
+import type { GradingScaleId } from "@/types/grades"
+import { GRADING_SCALES, getGradingScale } from "@/utils/gradingScales"
+import { saveSettings } from "@/utils/settingsUtils"
+import { convertDefaultScaleSubjects, remapTendencyGrades } from "@/utils/storageUtils"
+import { TENDENCY_OFFSETS } from "@/utils/tendencyUtils"
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -18,6 +29,8 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const [syncEnabled, setSyncEnabled] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const settings = useSettings()
+  const [pendingScale, setPendingScale] = useState<GradingScaleId | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -49,12 +62,46 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     }
   }
 
+  const handleScaleChange = async (scale: GradingScaleId, convertGrades: boolean) => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      if (convertGrades) {
+        const success = await convertDefaultScaleSubjects(settings.gradingScale, scale, user?.id, user?.syncEnabled)
+        if (!success) {
+          throw new Error("Failed to convert existing grades")
+        }
+      }
+      saveSettings({ gradingScale: scale })
+    } catch (err: any) {
+      setError(err.message || "Failed to change grading scale")
+    } finally {
+      setPendingScale(null)
+      setIsLoading(false)
+    }
+  }
+
+  const handleTendencyChange = async (value: string) => {
+    const tendencyOffset = Number(value)
+    setIsLoading(true)
+    setError(null)
+
+    // Save first so grades added meanwhile already use the new mapping
+    saveSettings({ tendencyOffset })
+    const success = await remapTendencyGrades(tendencyOffset, user?.id, user?.syncEnabled)
+    if (!success) {
+      setError("Failed to update existing tendency grades")
+    }
+    setIsLoading(false)
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
-          <DialogDescription>Configure your account settings</DialogDescription>
+          <DialogDescription>Configure the app and your account settings</DialogDescription>
         </DialogHeader>
 
         {error && (
@@ -65,32 +112,122 @@ export function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         )}
 
         <div className="space-y-6 py-4">
-          <div className="flex items-center justify-between">
-            <div className="space-y-1">
-              <div className="flex items-center">
-                <CloudSync className="h-4 w-4 mr-2 text-primary" />
-                <Label htmlFor="sync-toggle" className="font-medium">
-                  Sync Grades
-                </Label>
+          <div className="space-y-2">
+            <div className="flex items-center">
+              <Ruler className="h-4 w-4 mr-2 text-primary" />
+              <Label htmlFor="scale-select" className="font-medium">
+                Default Grading Scale
+              </Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Used by every subject that does not choose its own scale
+            </p>
+            <Select
+              value={pendingScale ?? settings.gradingScale}
+              onValueChange={(value: GradingScaleId) =>
+                value !== settings.gradingScale ? setPendingScale(value) : setPendingScale(null)
+              }
+              disabled={isLoading}
+            >
+              <SelectTrigger id="scale-select" className="bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(GRADING_SCALES).map((scale) => (
+                  <SelectItem key={scale.id} value={scale.id}>
+                    {scale.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {pendingScale && (
+              <div className="rounded-md border border-border bg-muted/30 p-3 space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Convert existing grades of subjects using the default scale to{" "}
+                  {getGradingScale(pendingScale).name}, or keep their values unchanged?
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => handleScaleChange(pendingScale, true)} disabled={isLoading}>
+                    Convert Grades
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleScaleChange(pendingScale, false)}
+                    disabled={isLoading}
+                  >
+                    Keep Values
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setPendingScale(null)} disabled={isLoading}>
+                    Cancel
+                  </Button>
+                </div>
               </div>
-              <p className="text-sm text-muted-foreground">Synchronize your grades across all your devices</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center">
+              <Diff className="h-4 w-4 mr-2 text-primary" />
+              <Label htmlFor="tendency-select" className="font-medium">
+                Tendency Grades
+              </Label>
             </div>
-            <Switch
-              id="sync-toggle"
-              checked={syncEnabled}
-              onCheckedChange={handleSyncToggle}
-              disabled={isLoading || !user || isOffline}
-            />
+            <p className="text-sm text-muted-foreground">
+              How grades like 2- or 1+ are counted. 2-3 always counts as 2.5.
+            </p>
+            <Select
+              value={String(settings.tendencyOffset)}
+              onValueChange={handleTendencyChange}
+              disabled={isLoading}
+            >
+              <SelectTrigger id="tendency-select" className="bg-background border-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TENDENCY_OFFSETS.map((offset) => (
+                  <SelectItem key={offset} value={String(offset)}>
+                    2- = {(2 + offset).toFixed(2)}, 2+ = {(2 - offset).toFixed(2)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
 
-          {isOffline && (
-            <Alert variant="warning" className="bg-amber-500/10 text-amber-500 border-amber-500/50">
+          {user && (
+            <div className="flex items-center justify-between">
+              <div className="space-y-1">
+                <div className="flex items-center">
+                  <CloudSync className="h-4 w-4 mr-2 text-primary" />
+                  <Label htmlFor="sync-toggle" className="font-medium">
+                    Sync Grades
+                  </Label>
+                </div>
+                <p className="text-sm text-muted-foreground">Synchronize your grades across all your devices</p>
+              </div>
+              <Switch
+                id="sync-toggle"
+                checked={syncEnabled}
+                onCheckedChange={handleSyncToggle}
+                disabled={isLoading || !user || isOffline}
+              />
+            </div>
+          )}
+
+          {user && isOffline && (
+            <Alert className="bg-amber-500/10 text-amber-500 border-amber-500/50">
               <WifiOff className="h-4 w-4" />
               <AlertDescription>
                 You are currently offline. Sync settings cannot be changed until you're back online.
               </AlertDescription>
             </Alert>
           )}
+
+          <ReminderSettings />
+
+          <BackupList />
+
+          <DataTransfer />
         </div>
       </DialogContent>
     </Dialog>
@@ -1,26 +1,73 @@
 "use client"
 
 import Link from "next/link"
-import { usePathname } from "next/navigation"
+import { usePathname, useRouter } from "next/navigation"
 import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
 import {
   Sidebar as ShadcnSidebar,
   SidebarContent,
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
+  SidebarMenuAction,
   SidebarHeader,
   SidebarFooter,
 } from "@/components/ui/sidebar"
 import type { Subject } from "../types/grades"
-import { getSubjectsFromStorage } from "../utils/storageUtils"
+import { getSubjectsFromStorage, reorderSubjects } from "../utils/storageUtils"
+import { useDragReorder } from "@/hooks/use-drag-reorder"
 import { ThemeToggle } from "./ThemeToggle"
-import { BookOpen, GraduationCap, Home } from "lucide-react"
+import { SubjectActions } from "./SubjectActions"
+import { TermSwitcher } from "./TermSwitcher"
+import { Archive, Award, BookOpen, CalendarDays, GraduationCap, Home, MoreHorizontal, Printer } from "lucide-react"
 
 export function Sidebar() {
   const pathname = usePathname()
+  const router = useRouter()
+  const { user } = useAuth()
   const [subjects, setSubjects] = useState<Subject[]>([])
 
+  const activeSubjects = subjects.filter((subject) => !subject.archived)
+  const archivedSubjects = subjects.filter((subject) => subject.archived)
+
+  const { getItemProps } = useDragReorder(
+    activeSubjects.map((subject) => subject.id),
+    async (orderedIds) => {
+      // Show the new order immediately, storage notifies once it is saved
+      setSubjects((prev) => [
+        ...orderedIds.map((id) => prev.find((subject) => subject.id === id)!),
+        ...prev.filter((subject) => subject.archived),
+      ])
+      await reorderSubjects(orderedIds, user?.id, user?.syncEnabled)
+    },
+  )
+
+  const renderSubjectItem = (subject: Subject) => (
+    <SidebarMenuItem key={subject.id}>
+      <SidebarMenuButton asChild isActive={pathname === `/subjects/${subject.id}`}>
+        <Link href={`/subjects/${subject.id}`} className="flex items-center gap-2 text-sm">
+          {subject.archived ? <Archive className="h-4 w-4" /> : <BookOpen className="h-4 w-4" />}
+          <span className="truncate">{subject.name}</span>
+        </Link>
+      </SidebarMenuButton>
+      <SubjectActions
+        subject={subject}
+        onDeleted={() => {
+          if (pathname === `/subjects/${subject.id}`) {
+            router.push("/")
+          }
+        }}
+        trigger={
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+            <span className="sr-only">Subject actions</span>
+          </SidebarMenuAction>
+        }
+      />
+    </SidebarMenuItem>
+  )
+
   useEffect(() => {
     const loadSubjects = async () => {
       try {
@@ -68,22 +115,59 @@ export function Sidebar() {
               </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild isActive={pathname === "/abitur"}>
+              <Link href="/abitur" className="flex items-center gap-2 text-sm md:text-base">
+                <Award className="h-4 w-4" />
+                Abitur
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild isActive={pathname === "/report"}>
+              <Link href="/report" className="flex items-center gap-2 text-sm md:text-base">
+                <Printer className="h-4 w-4" />
+                Report
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild isActive={pathname === "/calendar"}>
+              <Link href="/calendar" className="flex items-center gap-2 text-sm md:text-base">
+                <CalendarDays className="h-4 w-4" />
+                Calendar
+              </Link>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+
+          <div className="px-2 md:px-3 py-2">
+            <h3 className="mb-2 px-3 md:px-4 text-xs font-semibold text-muted-foreground">Term</h3>
+            <div className="px-1">
+              <TermSwitcher />
+            </div>
+          </div>
 
           <div className="px-2 md:px-3 py-2">
             <h3 className="mb-2 px-3 md:px-4 text-xs font-semibold text-muted-foreground">Subjects</h3>
-            <div className="max-h-[calc(100vh-200px)] overflow-y-auto pr-1">
-              {subjects.map((subject) => (
-                <SidebarMenuItem key={subject.id}>
-                  <SidebarMenuButton asChild isActive={pathname === `/subjects/${subject.id}`}>
-                    <Link href={`/subjects/${subject.id}`} className="flex items-center gap-2 text-sm">
-                      <BookOpen className="h-4 w-4" />
-                      {subject.name}
-                    </Link>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
+            <div className="max-h-[calc(100vh-280px)] overflow-y-auto pr-1">
+              {activeSubjects.map((subject) => (
+                <div
+                  key={subject.id}
+                  {...getItemProps(subject.id)}
+                  className="data-[dragging=true]:opacity-50 data-[drag-over=true]:border-t-2 data-[drag-over=true]:border-primary"
+                >
+                  {renderSubjectItem(subject)}
+                </div>
               ))}
             </div>
           </div>
+
+          {archivedSubjects.length > 0 && (
+            <div className="px-2 md:px-3 py-2">
+              <h3 className="mb-2 px-3 md:px-4 text-xs font-semibold text-muted-foreground">Archived</h3>
+              <div className="opacity-70">{archivedSubjects.map(renderSubjectItem)}</div>
+            </div>
+          )}
         </SidebarMenu>
       </SidebarContent>
       <SidebarFooter className="border-t border-border p-3 md:p-4">
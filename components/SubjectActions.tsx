@@ -0,0 +1,187 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { Subject } from "../types/grades"
+import { archiveSubject, deleteSubject, renameSubject } from "../utils/storageUtils"
+import { Archive, ArchiveRestore, MoreVertical, Pencil, Trash2 } from "lucide-react"
+
+interface SubjectActionsProps {
+  subject: Subject
+  onChanged?: () => void
+  onDeleted?: () => void
+  trigger?: React.ReactNode
+}
+
+export function SubjectActions({ subject, onChanged, onDeleted, trigger }: SubjectActionsProps) {
+  const { user } = useAuth()
+  const [isRenameOpen, setIsRenameOpen] = useState(false)
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false)
+  const [newName, setNewName] = useState(subject.name)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const openRename = () => {
+    setNewName(subject.name)
+    setError("")
+    setIsRenameOpen(true)
+  }
+
+  const handleRename = async () => {
+    if (!newName.trim()) {
+      setError("Subject name cannot be empty")
+      return
+    }
+
+    setIsLoading(true)
+    const success = await renameSubject(subject.id, newName, user?.id, user?.syncEnabled)
+    setIsLoading(false)
+
+    if (success) {
+      setIsRenameOpen(false)
+      onChanged?.()
+    } else {
+      setError("Failed to rename subject. The name might already be in use.")
+    }
+  }
+
+  const handleArchive = async () => {
+    const success = await archiveSubject(subject.id, !subject.archived, user?.id, user?.syncEnabled)
+    if (success) {
+      onChanged?.()
+    }
+  }
+
+  const handleDelete = async () => {
+    setIsLoading(true)
+    const success = await deleteSubject(subject.id, user?.id, user?.syncEnabled)
+    setIsLoading(false)
+    setIsDeleteOpen(false)
+
+    if (success) {
+      onDeleted?.()
+      onChanged?.()
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          {trigger ?? (
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+              <MoreVertical className="h-4 w-4" />
+              <span className="sr-only">Subject actions</span>
+            </Button>
+          )}
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={openRename}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleArchive}>
+            {subject.archived ? (
+              <>
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Restore
+              </>
+            ) : (
+              <>
+                <Archive className="h-4 w-4 mr-2" />
+                Archive
+              </>
+            )}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setIsDeleteOpen(true)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isRenameOpen} onOpenChange={setIsRenameOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Rename Subject</DialogTitle>
+            <DialogDescription>Grades stay attached to the subject when you rename it</DialogDescription>
+          </DialogHeader>
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Enter subject name"
+            className="bg-background border-border"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleRename()
+              }
+            }}
+          />
+          {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRenameOpen(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={isLoading}>
+              {isLoading ? "Saving..." : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{subject.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the subject and its {subject.grades.length} grade
+              {subject.grades.length !== 1 ? "s" : ""}. Archive the subject instead if you want to keep its history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isLoading}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isLoading}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSandbox } from "@/contexts/SandboxContext";
 import {
   Card,
   CardContent,
@@ -12,6 +13,12 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { GradeInput } from "./GradeInput";
+import { EditGradeDialog } from "./EditGradeDialog";
+import { WeightingSettings } from "./WeightingSettings";
+import { CategoryBreakdownCard } from "./CategoryBreakdownCard";
+import { GradePlanner } from "./GradePlanner";
+import { SandboxToggle } from "./SandboxToggle";
+import { Checkbox } from "@/components/ui/checkbox";
 import type { Grade, Subject } from "../types/grades";
 import {
   Table,
@@ -25,26 +32,64 @@ import {
   getSubjectById,
   addGradeToSubject,
   deleteGradeFromSubject,
+  updateGrade,
+  getGradeTypes,
+  getSubjectTermView,
+  usesCategoryWeighting,
 } from "../utils/storageUtils";
-import { Trash2, BookOpen, AlertCircle, LineChart, Info } from "lucide-react";
+import { isTermArchived } from "../utils/termUtils";
+import {
+  Trash2,
+  Pencil,
+  BookOpen,
+  AlertCircle,
+  LineChart,
+  Info,
+  SlidersHorizontal,
+  Lock,
+  FlaskConical,
+  X,
+} from "lucide-react";
 import { GradeHistoryChart } from "./GradeHistoryChart";
+import { SubjectScaleSelect } from "./SubjectScaleSelect";
+import { CsvExportMenu } from "./CsvExportMenu";
+import { CsvImportWizard } from "./CsvImportWizard";
+import { useSettings } from "@/hooks/use-settings";
+import { useTerms } from "@/hooks/use-terms";
+import {
+  formatGrade,
+  getGradeColor,
+  getScaleDirectionLabel,
+  getSubjectScale,
+} from "../utils/gradingScales";
 
 interface SubjectPageProps {
   subjectId: string;
 }
 
-function getGradeColor(grade: number): string {
-  if (grade <= 1.5) return "bg-green-500";
-  if (grade <= 2.5) return "bg-yellow-500";
-  if (grade <= 3.5) return "bg-orange-500";
-  return "bg-red-500";
-}
-
 export function SubjectPage({ subjectId }: SubjectPageProps) {
   const { user } = useAuth();
+  const settings = useSettings();
+  const { terms, selectedTerm } = useTerms();
+  const sandbox = useSandbox();
+  const [selectedHypothetical, setSelectedHypothetical] = useState<string[]>(
+    []
+  );
   const [subject, setSubject] = useState<Subject | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [retryCount, setRetryCount] = useState(0);
+  const [editingGrade, setEditingGrade] = useState<Grade | null>(null);
+  const [isWeightingOpen, setIsWeightingOpen] = useState(false);
+  const [projections, setProjections] = useState<Grade[]>([]);
+
+  // Kept between renders, so the planner only recalculates when the grades
+  // or the viewed term change
+  const { applySandbox } = sandbox;
+  const termView = useMemo(
+    () =>
+      subject && getSubjectTermView(applySandbox(subject), selectedTerm),
+    [subject, applySandbox, selectedTerm]
+  );
 
   // Load subject data
   useEffect(() => {
@@ -70,7 +115,7 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
     }
   }, [subjectId, retryCount]);
 
-  // Listen for sync preference changes
+  // Listen for sync preference changes and edits made elsewhere
   useEffect(() => {
     const handleSyncChange = async () => {
       const loadedSubject = await getSubjectById(subjectId);
@@ -78,20 +123,31 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
     };
 
     window.addEventListener("syncPreferenceChanged", handleSyncChange);
+    window.addEventListener("subjectsUpdated", handleSyncChange);
     return () => {
       window.removeEventListener("syncPreferenceChanged", handleSyncChange);
+      window.removeEventListener("subjectsUpdated", handleSyncChange);
     };
   }, [subjectId]);
 
   // Add a new grade
   const handleAddGrade = async (newGrade: Grade) => {
     console.log("SubjectPage received grade:", newGrade);
+    // In what-if mode the grade stays in memory only
+    if (subject && sandbox.isEnabled) {
+      sandbox.addHypotheticalGrade(
+        subject.id,
+        selectedTerm ? { ...newGrade, termId: selectedTerm.id } : newGrade
+      );
+      return;
+    }
     if (subject) {
       console.log("Adding grade to subject:", subject.id);
       try {
+        // Grades added while viewing a term go into that term
         const success = await addGradeToSubject(
           subject.id,
-          newGrade,
+          selectedTerm ? { ...newGrade, termId: selectedTerm.id } : newGrade,
           user?.id,
           user?.syncEnabled
         );
@@ -109,13 +165,13 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
   };
 
   // Delete a grade
-  const handleDeleteGrade = async (index: number) => {
+  const handleDeleteGrade = async (gradeId: string) => {
     if (subject) {
-      console.log("Deleting grade at index:", index);
+      console.log("Deleting grade:", gradeId);
       try {
         const success = await deleteGradeFromSubject(
           subject.id,
-          index,
+          gradeId,
           user?.id,
           user?.syncEnabled
         );
@@ -131,6 +187,28 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
     }
   };
 
+  // Save changes made in the edit dialog
+  const handleUpdateGrade = async (
+    gradeId: string,
+    patch: Partial<Omit<Grade, "id">>
+  ) => {
+    if (!subject) return;
+
+    const success = await updateGrade(
+      subject.id,
+      gradeId,
+      patch,
+      user?.id,
+      user?.syncEnabled
+    );
+    if (!success) {
+      throw new Error("Failed to update grade");
+    }
+
+    const updatedSubject = await getSubjectById(subject.id);
+    setSubject(updatedSubject);
+  };
+
   if (isLoading || (!subject && retryCount < 3)) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -139,7 +217,7 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
     );
   }
 
-  if (!subject) {
+  if (!subject || !termView) {
     return (
       <div className="flex flex-col items-center justify-center h-screen gap-4">
         <AlertCircle className="h-16 w-16 text-destructive" />
@@ -163,29 +241,74 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
     );
   }
 
+  const scale = getSubjectScale(subject, settings.gradingScale);
+  const isReadOnly = !!selectedTerm?.archived;
+
+  const reloadSubject = async () => {
+    const updatedSubject = await getSubjectById(subject.id);
+    setSubject(updatedSubject);
+  };
+
+  const isHypothetical = (grade: Grade) =>
+    sandbox.isHypothetical(subject.id, grade.id);
+  const hasHypothetical = termView.grades.some(isHypothetical);
+
+  const handleCommitHypothetical = async () => {
+    const success = await sandbox.commitGrades(
+      subject.id,
+      selectedHypothetical
+    );
+    if (success) {
+      setSelectedHypothetical([]);
+      await reloadSubject();
+    }
+  };
+
   return (
     <div className="space-y-6 md:space-y-8 w-full px-4 sm:px-6 md:px-8 py-4 md:py-6">
       <div className="space-y-2">
         <h1 className="text-2xl sm:text-3xl font-bold tracking-tight flex items-center gap-2">
           <BookOpen className="h-5 w-5 md:h-6 md:w-6 text-primary" />
           {subject.name}
+          {subject.archived && (
+            <Badge variant="outline" className="text-xs border-border">
+              Archived
+            </Badge>
+          )}
         </h1>
         <p className="text-sm md:text-base text-muted-foreground">
-          Manage grades for {subject.name}. Current average:
-          {subject.averageGrade !== undefined && subject.averageGrade > 0 ? (
+          Manage grades for {subject.name}.{" "}
+          {selectedTerm
+            ? `Average in ${selectedTerm.name}${
+                selectedTerm.archived ? " (frozen)" : ""
+              }:`
+            : "Current average:"}
+          {sandbox.isEnabled && hasHypothetical && " (with what-if grades)"}
+          {termView.averageGrade !== undefined &&
+          termView.grades.length > 0 ? (
             <Badge
               className={`${getGradeColor(
-                subject.averageGrade
+                termView.averageGrade,
+                scale
               )} text-white ml-2`}
             >
-              {subject.averageGrade.toFixed(2)}
+              {scale.formatAverage(termView.averageGrade)}
             </Badge>
           ) : (
             <span className="ml-2">No grades yet</span>
           )}
         </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs md:text-sm text-muted-foreground">
+          <span>Grading scale:</span>
+          <SubjectScaleSelect subject={subject} onChanged={reloadSubject} />
+        </div>
+        {!isReadOnly && <SandboxToggle />}
       </div>
 
+      {usesCategoryWeighting(subject.weighting) && (
+        <CategoryBreakdownCard subject={termView} scale={scale} />
+      )}
+
       {/* Grade History Chart */}
       <Card className="bg-card border-border shadow-lg">
         <CardHeader className="p-4 pb-2">
@@ -197,14 +320,16 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
             <span>Visualization of your grade progression over time</span>
             <div className="inline-flex items-center text-xs bg-muted/40 px-2 py-1 rounded-md">
               <Info className="h-3 w-3 mr-1 text-primary" />
-              <span>Up = Good (1), Down = Poor (6)</span>
+              <span>{getScaleDirectionLabel(scale)}</span>
             </div>
           </CardDescription>
         </CardHeader>
         <CardContent className="p-4">
           <div className="h-[200px] sm:h-[250px] md:h-[300px]">
             <GradeHistoryChart
-              grades={subject.grades}
+              grades={termView.grades}
+              projections={isReadOnly ? [] : projections}
+              scale={scale}
               height={200}
               className="sm:h-[250px] md:h-[300px]"
             />
@@ -212,22 +337,74 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
         </CardContent>
       </Card>
 
+      {!isReadOnly && (
+        <GradePlanner
+          subject={termView}
+          scale={scale}
+          onProjectionsChange={setProjections}
+        />
+      )}
+
       <Card className="bg-card border-border shadow-lg">
         <CardHeader className="p-4 pb-2">
-          <CardTitle className="text-lg md:text-xl">Add New Grade</CardTitle>
-          <CardDescription className="text-xs md:text-sm">
-            Enter a grade between 1 and 6 (1 is best, 6 is worst)
-          </CardDescription>
+          <div className="flex justify-between items-start gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="text-lg md:text-xl">
+                {sandbox.isEnabled ? "Add Hypothetical Grade" : "Add New Grade"}
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                {`Enter a grade between ${scale.min} and ${scale.max} (${scale.description})`}
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsWeightingOpen(true)}
+              className="flex items-center gap-2 shrink-0"
+            >
+              <SlidersHorizontal className="h-4 w-4" />
+              <span className="hidden sm:inline">Weighting</span>
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="p-4">
-          <GradeInput onAddGrade={handleAddGrade} />
+          {isReadOnly ? (
+            <p className="text-xs md:text-sm text-muted-foreground flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              {selectedTerm?.name} is archived. Switch to another term to add
+              grades.
+            </p>
+          ) : (
+            <GradeInput
+              onAddGrade={handleAddGrade}
+              scale={scale}
+              gradeTypes={getGradeTypes(subject.weighting)}
+            />
+          )}
         </CardContent>
       </Card>
 
       <div className="space-y-4">
-        <h2 className="text-xl md:text-2xl font-semibold">Grade History</h2>
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h2 className="text-xl md:text-2xl font-semibold">Grade History</h2>
+          <div className="flex flex-wrap items-center gap-2">
+            {!isReadOnly && <CsvImportWizard subject={subject} />}
+            <CsvExportMenu subject={subject} />
+          </div>
+          {hasHypothetical && (
+            <Button
+              size="sm"
+              onClick={handleCommitHypothetical}
+              disabled={selectedHypothetical.length === 0}
+              className="flex items-center gap-2"
+            >
+              <FlaskConical className="h-4 w-4" />
+              Save selected as real ({selectedHypothetical.length})
+            </Button>
+          )}
+        </div>
 
-        {subject.grades.length > 0 ? (
+        {termView.grades.length > 0 ? (
           <Card className="bg-card border-border shadow-lg overflow-hidden">
             <div className="overflow-x-auto">
               <Table>
@@ -237,22 +414,48 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
                     <TableHead>Grade</TableHead>
                     <TableHead>Weight</TableHead>
                     <TableHead>Date</TableHead>
-                    <TableHead className="text-right">Action</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {subject.grades.map((grade, index) => (
-                    <TableRow key={index} className="hover:bg-muted/30">
+                  {termView.grades.map((grade) => (
+                    <TableRow
+                      key={grade.id}
+                      className={
+                        isHypothetical(grade)
+                          ? "bg-primary/5 hover:bg-primary/10 border-dashed"
+                          : "hover:bg-muted/30"
+                      }
+                    >
                       <TableCell className="font-medium text-xs md:text-sm">
                         {grade.type}
+                        {isHypothetical(grade) && (
+                          <Badge
+                            variant="outline"
+                            className="ml-2 text-xs border-dashed border-primary text-primary"
+                          >
+                            What-if
+                          </Badge>
+                        )}
+                        {grade.note && (
+                          <p className="text-xs font-normal text-muted-foreground">
+                            {grade.note}
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge
                           className={`${getGradeColor(
-                            grade.value
+                            grade.value,
+                            scale
                           )} text-white text-xs`}
+                          title={
+                            grade.notation
+                              ? `Counts as ${scale.format(grade.value)}`
+                              : undefined
+                          }
                         >
-                          {grade.value}
+                          {formatGrade(grade, scale)}
                         </Badge>
                       </TableCell>
                       <TableCell className="text-xs md:text-sm">
@@ -261,15 +464,60 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
                       <TableCell className="text-xs md:text-sm">
                         {grade.date}
                       </TableCell>
-                      <TableCell className="text-right">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteGrade(index)}
-                          className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
+                      <TableCell className="text-right space-x-1">
+                        {isHypothetical(grade) ? (
+                          <>
+                            <Checkbox
+                              checked={selectedHypothetical.includes(grade.id)}
+                              onCheckedChange={(checked) =>
+                                setSelectedHypothetical((prev) =>
+                                  checked === true
+                                    ? [...prev, grade.id]
+                                    : prev.filter((id) => id !== grade.id)
+                                )
+                              }
+                              aria-label="Select to save as real grade"
+                              className="align-middle"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                sandbox.removeHypotheticalGrade(
+                                  subject.id,
+                                  grade.id
+                                )
+                              }
+                              className="h-7 w-7 p-0"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </>
+                        ) : isTermArchived(grade.termId, terms) ? (
+                          <Lock
+                            className="h-4 w-4 inline text-muted-foreground"
+                            aria-label="Archived term"
+                          />
+                        ) : (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingGrade(grade)}
+                              className="h-7 w-7 p-0"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteGrade(grade.id)}
+                              className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -280,11 +528,28 @@ export function SubjectPage({ subjectId }: SubjectPageProps) {
         ) : (
           <Card className="bg-card border-border p-4 sm:p-8 text-center">
             <p className="text-sm md:text-base text-muted-foreground">
-              No grades recorded yet. Add your first grade above.
+              {isReadOnly
+                ? "No grades were recorded in this term."
+                : "No grades recorded yet. Add your first grade above."}
             </p>
           </Card>
         )}
       </div>
+
+      <EditGradeDialog
+        grade={editingGrade}
+        scale={scale}
+        gradeTypes={getGradeTypes(subject.weighting)}
+        onClose={() => setEditingGrade(null)}
+        onSave={handleUpdateGrade}
+      />
+
+      <WeightingSettings
+        subject={subject}
+        isOpen={isWeightingOpen}
+        onClose={() => setIsWeightingOpen(false)}
+        onSaved={reloadSubject}
+      />
     </div>
   );
 }
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { GradingScaleId, Subject } from "../types/grades"
+import { GRADING_SCALES, getGradingScale } from "../utils/gradingScales"
+import { updateSubjectScale } from "../utils/storageUtils"
+
+interface SubjectScaleSelectProps {
+  subject: Subject
+  onChanged: () => void
+}
+
+const DEFAULT_OPTION = "default"
+
+export function SubjectScaleSelect({ subject, onChanged }: SubjectScaleSelectProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const [pendingScale, setPendingScale] = useState<string | null>(null)
+
+  const applyScale = async (option: string, convertGrades: boolean) => {
+    const scale = option === DEFAULT_OPTION ? undefined : (option as GradingScaleId)
+    const success = await updateSubjectScale(subject.id, scale, convertGrades, user?.id, user?.syncEnabled)
+    setPendingScale(null)
+    if (success) {
+      onChanged()
+    }
+  }
+
+  const handleChange = (option: string) => {
+    const currentScale = getGradingScale(subject.scale ?? settings.gradingScale)
+    const nextScale = getGradingScale(option === DEFAULT_OPTION ? settings.gradingScale : option)
+
+    // Only ask about converting when the effective scale actually changes
+    if (subject.grades.length > 0 && currentScale.id !== nextScale.id) {
+      setPendingScale(option)
+    } else {
+      applyScale(option, false)
+    }
+  }
+
+  const pendingScaleName = pendingScale
+    ? getGradingScale(pendingScale === DEFAULT_OPTION ? settings.gradingScale : pendingScale).name
+    : ""
+
+  return (
+    <>
+      <Select value={subject.scale ?? DEFAULT_OPTION} onValueChange={handleChange}>
+        <SelectTrigger className="w-full sm:w-[220px] bg-background border-border text-xs md:text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_OPTION}>Default ({getGradingScale(settings.gradingScale).name})</SelectItem>
+          {Object.values(GRADING_SCALES).map((scale) => (
+            <SelectItem key={scale.id} value={scale.id}>
+              {scale.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <AlertDialog open={pendingScale !== null} onOpenChange={(open) => !open && setPendingScale(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Switch to {pendingScaleName}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {subject.name} already has {subject.grades.length} grade{subject.grades.length !== 1 ? "s" : ""}. Convert
+              them to the new scale, or keep the values as they are if they were already entered in the new scale.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingScale && applyScale(pendingScale, false)}
+              className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+            >
+              Keep Values
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => pendingScale && applyScale(pendingScale, true)}>
+              Convert Grades
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
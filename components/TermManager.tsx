@@ -0,0 +1,238 @@
+"use client"
+
+import { useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { useSettings } from "@/hooks/use-settings"
+import { useTerms } from "@/hooks/use-terms"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import type { Term } from "../types/terms"
+import { addTerm, deleteTerm, setActiveTerm, updateTerm } from "../utils/termUtils"
+import { saveSettings } from "../utils/settingsUtils"
+import { archiveTerm, assignGradesToTerms, generateId, removeTermFromGrades } from "../utils/storageUtils"
+import { Archive, ArchiveRestore, CheckCircle2, PlusCircle, Trash2 } from "lucide-react"
+
+interface TermManagerProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+export function TermManager({ isOpen, onClose }: TermManagerProps) {
+  const { user } = useAuth()
+  const settings = useSettings()
+  const { terms } = useTerms()
+  const [name, setName] = useState("")
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<Term | null>(null)
+
+  const handleAdd = async () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) {
+      setError("Term name cannot be empty")
+      return
+    }
+    if (!startDate || !endDate || startDate > endDate) {
+      setError("Please pick a start date before the end date")
+      return
+    }
+    // Overlapping terms would make it ambiguous where a grade belongs
+    const overlapping = terms.find((term) => term.startDate <= endDate && startDate <= term.endDate)
+    if (overlapping) {
+      setError(`The dates overlap with "${overlapping.name}"`)
+      return
+    }
+
+    setIsLoading(true)
+    const success = addTerm({ id: generateId(), name: trimmedName, startDate, endDate, active: false })
+    if (success) {
+      // Existing grades from this period now belong to the new term
+      await assignGradesToTerms(user?.id, user?.syncEnabled)
+      setName("")
+      setStartDate("")
+      setEndDate("")
+      setError("")
+    } else {
+      setError("Failed to add term. The name might already be in use.")
+    }
+    setIsLoading(false)
+  }
+
+  const handleArchive = async (term: Term) => {
+    setIsLoading(true)
+    const success = term.archived
+      ? updateTerm(term.id, { archived: false, frozenAverages: undefined })
+      : await archiveTerm(term.id, user?.id, user?.syncEnabled)
+    setIsLoading(false)
+    if (!success) {
+      setError(`Failed to ${term.archived ? "restore" : "archive"} "${term.name}"`)
+    }
+  }
+
+  const handleDelete = async (term: Term) => {
+    setIsLoading(true)
+    const success =
+      (await removeTermFromGrades(term.id, user?.id, user?.syncEnabled)) && deleteTerm(term.id)
+    if (success && settings.selectedTermId === term.id) {
+      saveSettings({ selectedTermId: undefined })
+    }
+    setIsLoading(false)
+    setPendingDelete(null)
+    if (!success) {
+      setError(`Failed to delete "${term.name}"`)
+    }
+  }
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>School Terms</DialogTitle>
+            <DialogDescription>
+              Grades belong to the term their date falls into. Archived terms are read-only and keep the averages
+              they had when they were archived.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {terms.length === 0 && (
+              <p className="text-sm text-muted-foreground">No terms yet. Add your first term below.</p>
+            )}
+            {terms.map((term) => (
+              <div
+                key={term.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border border-border p-3"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm truncate">{term.name}</span>
+                    {term.active && <Badge className="text-xs">Active</Badge>}
+                    {term.archived && (
+                      <Badge variant="outline" className="text-xs border-border">
+                        Archived
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {term.startDate} – {term.endDate}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {!term.active && !term.archived && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setActiveTerm(term.id)}
+                      disabled={isLoading}
+                      title="Make active"
+                      className="h-7 w-7 p-0"
+                    >
+                      <CheckCircle2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleArchive(term)}
+                    disabled={isLoading}
+                    title={term.archived ? "Restore" : "Archive"}
+                    className="h-7 w-7 p-0"
+                  >
+                    {term.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPendingDelete(term)}
+                    disabled={isLoading}
+                    title="Delete"
+                    className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 border-t border-border pt-4">
+            <Label className="text-sm font-medium">Add Term</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. 2024/25 1. Halbjahr"
+              className="bg-background border-border"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-1">
+                <Label htmlFor="term-start" className="text-xs text-muted-foreground">
+                  Start
+                </Label>
+                <Input
+                  id="term-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="bg-background border-border"
+                />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="term-end" className="text-xs text-muted-foreground">
+                  End
+                </Label>
+                <Input
+                  id="term-end"
+                  type="date"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="bg-background border-border"
+                />
+              </div>
+            </div>
+            {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+            <Button onClick={handleAdd} disabled={isLoading} className="flex items-center gap-2">
+              <PlusCircle className="h-4 w-4" />
+              Add Term
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The term is removed, but its grades are kept and only show up under "All terms".
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && handleDelete(pendingDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from "react"
+import { useTerms } from "@/hooks/use-terms"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ALL_TERMS } from "../utils/termUtils"
+import { saveSettings } from "../utils/settingsUtils"
+import { TermManager } from "./TermManager"
+import { CalendarRange, Settings2 } from "lucide-react"
+
+export function TermSwitcher() {
+  const { terms, selectedTerm } = useTerms()
+  const [isManagerOpen, setIsManagerOpen] = useState(false)
+
+  return (
+    <>
+      {terms.length > 0 ? (
+        <div className="flex items-center gap-1">
+          <Select
+            value={selectedTerm?.id ?? ALL_TERMS}
+            onValueChange={(value) => saveSettings({ selectedTermId: value })}
+          >
+            <SelectTrigger className="h-8 bg-background border-border text-xs md:text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TERMS}>All terms</SelectItem>
+              {terms.map((term) => (
+                <SelectItem key={term.id} value={term.id}>
+                  {term.name}
+                  {term.active ? " (active)" : term.archived ? " (archived)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setIsManagerOpen(true)}
+            className="h-8 w-8 shrink-0"
+            title="Manage terms"
+          >
+            <Settings2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsManagerOpen(true)}
+          className="w-full flex items-center gap-2 text-xs"
+        >
+          <CalendarRange className="h-4 w-4" />
+          Set Up Terms
+        </Button>
+      )}
+
+      <TermManager isOpen={isManagerOpen} onClose={() => setIsManagerOpen(false)} />
+    </>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import { useEffect } from "react"
+import { toast } from "sonner"
+import { useAuth } from "@/contexts/AuthContext"
+import type { HistoryAction, HistoryEntry } from "@/types/history"
+import { redoLastChange, undoLastChange } from "@/utils/storageUtils"
+
+// Text fields keep their own undo
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+// Undo toasts after every edit and the Ctrl+Z / Ctrl+Shift+Z shortcuts
+export function UndoRedo() {
+  const { user } = useAuth()
+
+  useEffect(() => {
+    const undo = () => undoLastChange(user?.id, user?.syncEnabled)
+    const redo = () => redoLastChange(user?.id, user?.syncEnabled)
+
+    const handleHistoryUpdated = (event: Event) => {
+      const { action, entry } = (event as CustomEvent<{ action: HistoryAction; entry?: HistoryEntry }>).detail
+      if (!entry) return
+
+      // One toast at a time, replaced by the next edit
+      if (action === "record") {
+        toast(entry.label, { id: "history", action: { label: "Undo", onClick: undo } })
+      } else if (action === "undo") {
+        toast(`Undone: ${entry.label}`, { id: "history", action: { label: "Redo", onClick: redo } })
+      } else if (action === "redo") {
+        toast(`Redone: ${entry.label}`, { id: "history", action: { label: "Undo", onClick: undo } })
+      }
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || (key === "y" && !event.shiftKey)) {
+        event.preventDefault()
+        redo()
+      }
+    }
+
+    window.addEventListener("historyUpdated", handleHistoryUpdated)
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("historyUpdated", handleHistoryUpdated)
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [user])
+
+  return null
+}
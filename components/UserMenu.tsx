@@ -12,13 +12,13 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { AuthModal } from "./auth/AuthModal"
 import { SettingsModal } from "./SettingsModal"
-import { User, LogOut, Settings, WifiOff, CloudOff, AlertTriangle } from "lucide-react"
+import { User, LogOut, Settings, WifiOff, CloudOff, CloudUpload, AlertTriangle } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { ThemeToggle } from "./ThemeToggle"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 export function UserMenu() {
-  const { user, logout, isOffline, cloudFeaturesEnabled } = useAuth()
+  const { user, logout, isOffline, cloudFeaturesEnabled, pendingChanges } = useAuth()
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false)
   const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false)
 
@@ -59,6 +59,27 @@ export function UserMenu() {
           </TooltipProvider>
         )}
 
+        {cloudFeaturesEnabled && user && pendingChanges > 0 && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="secondary" className="flex items-center gap-1 px-2 py-1 cursor-help">
+                  <CloudUpload className="h-3 w-3" />
+                  <span className="text-xs">{pendingChanges}</span>
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs">
+                  {pendingChanges} change{pendingChanges !== 1 ? "s" : ""} waiting to sync. <br />
+                  {isOffline
+                    ? "They will be sent when you are back online."
+                    : "Sending to the cloud, retrying automatically."}
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
+
         {cloudFeaturesEnabled && user ? (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -72,7 +93,7 @@ export function UserMenu() {
                 <span className="font-medium">{user.email}</span>
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={() => setIsSettingsModalOpen(true)} disabled={isOffline}>
+              <DropdownMenuItem onClick={() => setIsSettingsModalOpen(true)}>
                 <Settings className="h-4 w-4 mr-2" />
                 Settings
                 {isOffline && <WifiOff className="h-3 w-3 ml-2 text-destructive" />}
@@ -118,15 +139,19 @@ export function UserMenu() {
           </TooltipProvider>
         ) : null}
 
+        {/* Logged-in users reach settings through the account menu */}
+        {!(cloudFeaturesEnabled && user) && (
+          <Button variant="ghost" size="icon" onClick={() => setIsSettingsModalOpen(true)}>
+            <Settings className="h-4 w-4" />
+            <span className="sr-only">Settings</span>
+          </Button>
+        )}
+
         <ThemeToggle />
       </div>
 
-      {cloudFeaturesEnabled && (
-        <>
-          <AuthModal isOpen={isAuthModalOpen} onClose={() => setIsAuthModalOpen(false)} />
-          <SettingsModal isOpen={isSettingsModalOpen} onClose={() => setIsSettingsModalOpen(false)} />
-        </>
-      )}
+      {cloudFeaturesEnabled && <AuthModal isOpen={isAuthModalOpen} onClose={() => setIsAuthModalOpen(false)} />}
+      <SettingsModal isOpen={isSettingsModalOpen} onClose={() => setIsSettingsModalOpen(false)} />
     </>
   )
 }
@@ -0,0 +1,336 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { CalculationMode, GradeCategory, GradeTypeConfig, Subject } from "../types/grades"
+import {
+  DEFAULT_GRADE_CATEGORIES,
+  DEFAULT_GRADE_TYPES,
+  generateId,
+  getGradeTypes,
+  updateSubjectWeighting,
+} from "../utils/storageUtils"
+import { PlusCircle, RotateCcw, Trash2 } from "lucide-react"
+
+interface WeightingSettingsProps {
+  subject: Subject
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+}
+
+// Editable rows; numbers are kept as text so inputs can be cleared while typing
+interface GradeTypeRow {
+  name: string
+  weight: string
+  category?: string
+}
+
+interface CategoryRow {
+  id: string
+  name: string
+  share: string
+}
+
+const NO_CATEGORY = "none"
+
+const toTypeRows = (gradeTypes: GradeTypeConfig[]): GradeTypeRow[] =>
+  gradeTypes.map((t) => ({ name: t.name, weight: String(t.weight), category: t.category }))
+
+const toCategoryRows = (categories: GradeCategory[]): CategoryRow[] =>
+  categories.map((c) => ({ id: c.id, name: c.name, share: String(c.share) }))
+
+const parseNumber = (value: string) => Number.parseFloat(value.replace(",", "."))
+
+export function WeightingSettings({ subject, isOpen, onClose, onSaved }: WeightingSettingsProps) {
+  const { user } = useAuth()
+  const [mode, setMode] = useState<CalculationMode>("pooled")
+  const [rows, setRows] = useState<GradeTypeRow[]>([])
+  const [categoryRows, setCategoryRows] = useState<CategoryRow[]>([])
+  const [error, setError] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(subject.weighting?.mode ?? "pooled")
+      setRows(toTypeRows(getGradeTypes(subject.weighting)))
+      setCategoryRows(toCategoryRows(subject.weighting?.categories ?? []))
+      setError("")
+    }
+  }, [isOpen, subject])
+
+  const updateRow = (index: number, patch: Partial<GradeTypeRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  const updateCategoryRow = (index: number, patch: Partial<CategoryRow>) => {
+    setCategoryRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  const handleModeChange = (newMode: string) => {
+    setMode(newMode as CalculationMode)
+
+    // Suggest written/oral categories the first time category mode is chosen
+    if (newMode === "categories" && categoryRows.length === 0) {
+      setCategoryRows(toCategoryRows(DEFAULT_GRADE_CATEGORIES))
+      setRows((prev) =>
+        prev.map((row) => ({
+          ...row,
+          category: row.category ?? (row.name === "Test" ? "written" : "oral"),
+        })),
+      )
+    }
+  }
+
+  const handleSave = async () => {
+    const gradeTypes: GradeTypeConfig[] = []
+    const categories: GradeCategory[] = []
+
+    for (const row of categoryRows) {
+      const name = row.name.trim()
+      const share = parseNumber(row.share)
+
+      if (!name) {
+        setError("Every category needs a name")
+        return
+      }
+      if (isNaN(share) || share <= 0) {
+        setError(`Share of "${name}" must be a positive percentage`)
+        return
+      }
+
+      categories.push({ id: row.id, name, share })
+    }
+
+    if (mode === "categories") {
+      if (categories.length === 0) {
+        setError("Add at least one category")
+        return
+      }
+      const totalShare = categories.reduce((sum, c) => sum + c.share, 0)
+      if (Math.abs(totalShare - 100) > 0.01) {
+        setError(`Category shares must add up to 100% (currently ${totalShare}%)`)
+        return
+      }
+    }
+
+    for (const row of rows) {
+      const name = row.name.trim()
+      const weight = parseNumber(row.weight)
+
+      if (!name) {
+        setError("Every grade type needs a name")
+        return
+      }
+      if (gradeTypes.some((t) => t.name.toLowerCase() === name.toLowerCase())) {
+        setError(`"${name}" is listed more than once`)
+        return
+      }
+      if (isNaN(weight) || weight <= 0) {
+        setError(`Weight of "${name}" must be a positive number`)
+        return
+      }
+
+      const category = categories.some((c) => c.id === row.category) ? row.category : undefined
+      gradeTypes.push(category ? { name, weight, category } : { name, weight })
+    }
+
+    if (gradeTypes.length === 0) {
+      setError("Add at least one grade type")
+      return
+    }
+
+    setIsSaving(true)
+    const success = await updateSubjectWeighting(
+      subject.id,
+      { mode, gradeTypes, categories },
+      user?.id,
+      user?.syncEnabled,
+    )
+    setIsSaving(false)
+
+    if (success) {
+      onSaved()
+      onClose()
+    } else {
+      setError("Failed to save weighting")
+    }
+  }
+
+  const showCategories = mode === "categories"
+  const typeGrid = showCategories ? "grid-cols-[1fr_5rem_7rem_2rem]" : "grid-cols-[1fr_6rem_2rem]"
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Grade Types & Weights</DialogTitle>
+          <DialogDescription>
+            Configure which grade types {subject.name} uses and how much each one counts. Existing grades with a
+            type's default weight are updated; weights you changed by hand are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Calculation</Label>
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="pooled">All grades together</TabsTrigger>
+              <TabsTrigger value="categories">By category</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            {showCategories
+              ? "Each category is averaged on its own and counts with its share of the final grade. Empty categories are left out."
+              : "All grades are combined into one weighted average."}
+          </p>
+        </div>
+
+        {showCategories && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_6rem_2rem] gap-2 px-1">
+              <Label className="text-xs text-muted-foreground">Category</Label>
+              <Label className="text-xs text-muted-foreground">Share (%)</Label>
+            </div>
+            {categoryRows.map((row, index) => (
+              <div key={row.id} className="grid grid-cols-[1fr_6rem_2rem] gap-2 items-center">
+                <Input
+                  value={row.name}
+                  onChange={(e) => updateCategoryRow(index, { name: e.target.value })}
+                  placeholder="e.g. Written"
+                  className="bg-background border-border"
+                />
+                <Input
+                  type="number"
+                  step="5"
+                  min={0}
+                  max={100}
+                  value={row.share}
+                  onChange={(e) => updateCategoryRow(index, { share: e.target.value })}
+                  className="bg-background border-border"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCategoryRows((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setCategoryRows((prev) => [...prev, { id: generateId(), name: "", share: "0" }])}
+              className="flex items-center gap-2"
+            >
+              <PlusCircle className="h-4 w-4" />
+              Add Category
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className={`grid ${typeGrid} gap-2 px-1`}>
+            <Label className="text-xs text-muted-foreground">Type</Label>
+            <Label className="text-xs text-muted-foreground">Weight</Label>
+            {showCategories && <Label className="text-xs text-muted-foreground">Category</Label>}
+          </div>
+          {rows.map((row, index) => (
+            <div key={index} className={`grid ${typeGrid} gap-2 items-center`}>
+              <Input
+                value={row.name}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+                placeholder="e.g. Vokabeltest"
+                className="bg-background border-border"
+              />
+              <Input
+                type="number"
+                step="0.5"
+                min={0}
+                value={row.weight}
+                onChange={(e) => updateRow(index, { weight: e.target.value })}
+                className="bg-background border-border"
+              />
+              {showCategories && (
+                <Select
+                  value={row.category ?? NO_CATEGORY}
+                  onValueChange={(value) => updateRow(index, { category: value === NO_CATEGORY ? undefined : value })}
+                >
+                  <SelectTrigger className="bg-background border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>None</SelectItem>
+                    {categoryRows.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name || "Unnamed"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                className="text-destructive hover:text-destructive/90 hover:bg-destructive/10 h-7 w-7 p-0"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRows((prev) => [...prev, { name: "", weight: "1" }])}
+              className="flex items-center gap-2"
+            >
+              <PlusCircle className="h-4 w-4" />
+              Add Type
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setRows(toTypeRows(DEFAULT_GRADE_TYPES))}
+              className="flex items-center gap-2"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Reset to Defaults
+            </Button>
+          </div>
+          {showCategories && rows.some((row) => !categoryRows.some((c) => c.id === row.category)) && (
+            <p className="text-xs text-muted-foreground">
+              Grades of types without a category are not counted in the final average.
+            </p>
+          )}
+          {error && <p className="text-destructive text-xs sm:text-sm">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
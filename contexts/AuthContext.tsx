@@ -9,22 +9,33 @@ import {
   logout as appwriteLogout,
   createAccount as appwriteCreateAccount,
   updateUserSyncPreference,
-  syncSubjectsToCloud,
+  subscribeToSubjectChanges,
   ENABLE_CLOUD_FEATURES,
 } from "@/lib/appwrite";
-import { getSubjectsFromStorage as getLocalSubjects } from "@/utils/storageUtils";
+import {
+  getSubjectsFromStorage as getLocalSubjects,
+  syncWithCloud,
+} from "@/utils/storageUtils";
+import {
+  getNextReplayDelay,
+  getOutbox,
+  replayOutbox,
+} from "@/utils/outboxUtils";
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isOffline: boolean;
   cloudFeaturesEnabled: boolean;
+  pendingChanges: number; // Local changes waiting to be synced
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string, name: string) => Promise<void>;
   logout: () => Promise<void>;
   updateSyncPreference: (syncEnabled: boolean) => Promise<void>;
 }
 
+const REALTIME_DEBOUNCE_MS = 1000;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -32,6 +43,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isOffline, setIsOffline] = useState(false);
   const [networkErrorCount, setNetworkErrorCount] = useState(0);
+  const [pendingChanges, setPendingChanges] = useState(0);
 
   // Check network status
   useEffect(() => {
@@ -81,6 +93,84 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkUser();
   }, [networkErrorCount]);
 
+  // Count changes queued for the current user
+  useEffect(() => {
+    const updatePendingChanges = () =>
+      setPendingChanges(user ? getOutbox(user.id).length : 0);
+
+    updatePendingChanges();
+    window.addEventListener("outboxUpdated", updatePendingChanges);
+    window.addEventListener("storage", updatePendingChanges);
+    return () => {
+      window.removeEventListener("outboxUpdated", updatePendingChanges);
+      window.removeEventListener("storage", updatePendingChanges);
+    };
+  }, [user]);
+
+  // Replay queued changes after login and when the connection comes back,
+  // retrying with backoff until the outbox is empty
+  useEffect(() => {
+    if (!ENABLE_CLOUD_FEATURES || !user?.syncEnabled || isOffline) {
+      return;
+    }
+
+    const userId = user.id;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const replay = async () => {
+      try {
+        // Reading with sync merges with the cloud first, which sends
+        // everything at once when it works
+        const subjects = await getLocalSubjects(userId, true);
+        await replayOutbox(userId, subjects);
+      } catch (error) {
+        console.error("Error replaying pending changes:", error);
+      }
+
+      const delay = getNextReplayDelay(userId);
+      if (!cancelled && delay !== null) {
+        timer = setTimeout(replay, delay);
+      }
+    };
+
+    replay();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, isOffline]);
+
+  // Merge changes made on other devices as they happen; echoes of this
+  // device's own syncs do not trigger a merge. Events arrive once per
+  // document, so a burst of them leads to a single merge.
+  useEffect(() => {
+    if (!ENABLE_CLOUD_FEATURES || !user?.syncEnabled || isOffline) {
+      return;
+    }
+
+    const userId = user.id;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = subscribeToSubjectChanges(userId, () => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        try {
+          // Reading with sync merges the cloud copy into local storage and
+          // notifies the UI when something changed
+          await getLocalSubjects(userId, true);
+        } catch (error) {
+          console.error("Error merging realtime update:", error);
+        }
+      }, REALTIME_DEBOUNCE_MS);
+    });
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [user, isOffline]);
+
   const login = async (email: string, password: string) => {
     if (!ENABLE_CLOUD_FEATURES) {
       throw new Error("Cloud features are disabled");
@@ -101,15 +191,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const currentUser = await getCurrentUser();
       setUser(currentUser);
 
-      // Always attempt to sync local data on login if cloud features are enabled
+      // Merge local data with the cloud copy on login instead of
+      // overwriting it, so changes from other devices are kept
       try {
-        const localSubjects = getLocalSubjects(currentUser.id);
-        if (localSubjects.length > 0) {
-          const syncResult = await syncSubjectsToCloud(
-            currentUser.id,
-            localSubjects
-          );
-          if (!syncResult) {
+        if (currentUser) {
+          const synced = await syncWithCloud(currentUser.id);
+          if (!synced) {
             console.error("Failed to sync subjects to cloud");
           }
         }
@@ -247,6 +334,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     isLoading,
     isOffline,
     cloudFeaturesEnabled: ENABLE_CLOUD_FEATURES,
+    pendingChanges,
     login,
     signup,
     logout,
@@ -0,0 +1,138 @@
+"use client";
+
+import type React from "react";
+import { createContext, useCallback, useContext, useState } from "react";
+import type { Grade, Subject } from "@/types/grades";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  addGradesToSubject,
+  prepareNewGrades,
+  withHypotheticalGrades,
+} from "@/utils/storageUtils";
+
+// Hypothetical grades live only in memory. Nothing here is written to
+// localStorage or synced until grades are committed.
+interface SandboxContextType {
+  isEnabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  hypotheticalGrades: Record<string, Grade[]>; // Subject id -> grades
+  hypotheticalCount: number;
+  addHypotheticalGrade: (subjectId: string, grade: Grade) => void;
+  removeHypotheticalGrade: (subjectId: string, gradeId: string) => void;
+  isHypothetical: (subjectId: string, gradeId: string) => boolean;
+  applySandbox: (subject: Subject) => Subject;
+  commitGrades: (subjectId: string, gradeIds: string[]) => Promise<boolean>;
+  discardAll: () => void;
+}
+
+const SandboxContext = createContext<SandboxContextType | undefined>(
+  undefined
+);
+
+export function SandboxProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [hypotheticalGrades, setHypotheticalGrades] = useState<
+    Record<string, Grade[]>
+  >({});
+
+  // Grades get their term like real ones, so they still show once a term
+  // is selected
+  const addHypotheticalGrade = useCallback(
+    (subjectId: string, grade: Grade) => {
+      setHypotheticalGrades((prev) => ({
+        ...prev,
+        [subjectId]: [...(prev[subjectId] || []), ...prepareNewGrades([grade])],
+      }));
+    },
+    []
+  );
+
+  const removeHypotheticalGrades = useCallback(
+    (subjectId: string, gradeIds: string[]) => {
+      setHypotheticalGrades((prev) => ({
+        ...prev,
+        [subjectId]: (prev[subjectId] || []).filter(
+          (grade) => !gradeIds.includes(grade.id)
+        ),
+      }));
+    },
+    []
+  );
+
+  const removeHypotheticalGrade = useCallback(
+    (subjectId: string, gradeId: string) =>
+      removeHypotheticalGrades(subjectId, [gradeId]),
+    [removeHypotheticalGrades]
+  );
+
+  const isHypothetical = useCallback(
+    (subjectId: string, gradeId: string) =>
+      (hypotheticalGrades[subjectId] || []).some(
+        (grade) => grade.id === gradeId
+      ),
+    [hypotheticalGrades]
+  );
+
+  // Hypothetical grades only show while the sandbox is switched on
+  const applySandbox = useCallback(
+    (subject: Subject) =>
+      isEnabled
+        ? withHypotheticalGrades(subject, hypotheticalGrades[subject.id] || [])
+        : subject,
+    [isEnabled, hypotheticalGrades]
+  );
+
+  // Turn selected hypothetical grades into real ones
+  const commitGrades = async (subjectId: string, gradeIds: string[]) => {
+    const grades = (hypotheticalGrades[subjectId] || []).filter((grade) =>
+      gradeIds.includes(grade.id)
+    );
+    if (grades.length === 0) return true;
+
+    const success = await addGradesToSubject(
+      subjectId,
+      grades,
+      user?.id,
+      user?.syncEnabled
+    );
+    if (success) {
+      removeHypotheticalGrades(subjectId, gradeIds);
+    }
+    return success;
+  };
+
+  const discardAll = () => setHypotheticalGrades({});
+
+  const hypotheticalCount = Object.values(hypotheticalGrades).reduce(
+    (sum, grades) => sum + grades.length,
+    0
+  );
+
+  return (
+    <SandboxContext.Provider
+      value={{
+        isEnabled,
+        setEnabled: setIsEnabled,
+        hypotheticalGrades,
+        hypotheticalCount,
+        addHypotheticalGrade,
+        removeHypotheticalGrade,
+        isHypothetical,
+        applySandbox,
+        commitGrades,
+        discardAll,
+      }}
+    >
+      {children}
+    </SandboxContext.Provider>
+  );
+}
+
+export function useSandbox() {
+  const context = useContext(SandboxContext);
+  if (context === undefined) {
+    throw new Error("useSandbox must be used within a SandboxProvider");
+  }
+  return context;
+}
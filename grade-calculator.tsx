@@ -4,6 +4,7 @@ import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { PERCENT_SCALE, roundAverage, validateGradeValue } from "@/utils/gradingScales"
 
 export default function GradeCalculator() {
   const [grades, setGrades] = useState<number[]>([])
@@ -11,9 +12,10 @@ export default function GradeCalculator() {
   const [error, setError] = useState<string>("")
 
   const addGrade = () => {
-    const grade = Number.parseFloat(currentGrade)
-    if (isNaN(grade) || grade < 0 || grade > 100) {
-      setError("Please enter a valid grade between 0 and 100")
+    const grade = PERCENT_SCALE.parse(currentGrade)
+    const validationError = validateGradeValue(grade, PERCENT_SCALE)
+    if (grade === null || validationError) {
+      setError(validationError ?? "")
       return
     }
     setGrades([...grades, grade])
@@ -22,9 +24,9 @@ export default function GradeCalculator() {
   }
 
   const calculateAverage = () => {
-    if (grades.length === 0) return 0
+    if (grades.length === 0) return PERCENT_SCALE.formatAverage(0)
     const sum = grades.reduce((acc, grade) => acc + grade, 0)
-    return (sum / grades.length).toFixed(2)
+    return PERCENT_SCALE.formatAverage(roundAverage(sum / grades.length, PERCENT_SCALE))
   }
 
   return (
@@ -50,7 +52,7 @@ export default function GradeCalculator() {
             {grades.length > 0 ? (
               <ul className="list-disc list-inside">
                 {grades.map((grade, index) => (
-                  <li key={index}>{grade}</li>
+                  <li key={index}>{PERCENT_SCALE.format(grade)}</li>
                 ))}
               </ul>
             ) : (
@@ -0,0 +1,21 @@
+import * as React from "react"
+import type { UpcomingAssessment } from "@/types/assessments"
+import { getAssessments } from "@/utils/assessmentUtils"
+
+export function useAssessments() {
+  const [assessments, setAssessments] = React.useState<UpcomingAssessment[]>([])
+
+  React.useEffect(() => {
+    const loadAssessments = () => setAssessments(getAssessments())
+
+    loadAssessments()
+    window.addEventListener("assessmentsUpdated", loadAssessments)
+    window.addEventListener("storage", loadAssessments)
+    return () => {
+      window.removeEventListener("assessmentsUpdated", loadAssessments)
+      window.removeEventListener("storage", loadAssessments)
+    }
+  }, [])
+
+  return assessments
+}
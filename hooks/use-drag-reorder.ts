@@ -0,0 +1,41 @@
+import * as React from "react"
+
+// Native HTML5 drag-and-drop reordering for a list of ids
+export function useDragReorder(ids: string[], onReorder: (orderedIds: string[]) => void) {
+  const [draggingId, setDraggingId] = React.useState<string | null>(null)
+  const [overId, setOverId] = React.useState<string | null>(null)
+
+  const reset = () => {
+    setDraggingId(null)
+    setOverId(null)
+  }
+
+  const getItemProps = (id: string) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.effectAllowed = "move"
+      e.dataTransfer.setData("text/plain", id)
+      setDraggingId(id)
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!draggingId) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "move"
+      setOverId(id)
+    },
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault()
+      if (draggingId && draggingId !== id) {
+        const next = ids.filter((itemId) => itemId !== draggingId)
+        next.splice(next.indexOf(id) + (ids.indexOf(draggingId) < ids.indexOf(id) ? 1 : 0), 0, draggingId)
+        onReorder(next)
+      }
+      reset()
+    },
+    onDragEnd: reset,
+    "data-dragging": draggingId === id,
+    "data-drag-over": overId === id && draggingId !== id,
+  })
+
+  return { getItemProps, draggingId }
+}
@@ -0,0 +1,21 @@
+import * as React from "react"
+import type { AppSettings } from "@/types/settings"
+import { DEFAULT_SETTINGS, getSettings } from "@/utils/settingsUtils"
+
+export function useSettings(): AppSettings {
+  const [settings, setSettings] = React.useState<AppSettings>(DEFAULT_SETTINGS)
+
+  React.useEffect(() => {
+    const loadSettings = () => setSettings(getSettings())
+
+    loadSettings()
+    window.addEventListener("settingsUpdated", loadSettings)
+    window.addEventListener("storage", loadSettings)
+    return () => {
+      window.removeEventListener("settingsUpdated", loadSettings)
+      window.removeEventListener("storage", loadSettings)
+    }
+  }, [])
+
+  return settings
+}
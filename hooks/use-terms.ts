@@ -0,0 +1,28 @@
+import * as React from "react"
+import type { Term } from "@/types/terms"
+import { getTerms, resolveSelectedTerm } from "@/utils/termUtils"
+import { useSettings } from "@/hooks/use-settings"
+
+export function useTerms() {
+  const settings = useSettings()
+  const [terms, setTerms] = React.useState<Term[]>([])
+
+  React.useEffect(() => {
+    const loadTerms = () => setTerms(getTerms())
+
+    loadTerms()
+    window.addEventListener("termsUpdated", loadTerms)
+    window.addEventListener("storage", loadTerms)
+    return () => {
+      window.removeEventListener("termsUpdated", loadTerms)
+      window.removeEventListener("storage", loadTerms)
+    }
+  }, [])
+
+  return {
+    terms,
+    // The term being viewed; null shows all terms
+    selectedTerm: resolveSelectedTerm(terms, settings.selectedTermId),
+    activeTerm: terms.find((term) => term.active),
+  }
+}
@@ -1,4 +1,11 @@
-import { Client, Account, Databases, ID, Query } from "appwrite";
+import { Client, Account, Databases, ID, Query, type Models } from "appwrite";
+import type { Grade, Subject } from "@/types/grades";
+import type {
+  SyncCollection,
+  SyncOperation,
+  SyncOperationStats,
+  SyncResult,
+} from "@/types/sync";
 
 // Feature flag to enable/disable cloud features
 export const ENABLE_CLOUD_FEATURES = true; // Set to true to enable cloud features
@@ -10,7 +17,8 @@ let hasShownNetworkError = false;
 const appwriteEndpoint = "https://appwrite.nief.tech/v1";
 const appwriteProjectId = "67d6ea990025fa097964"; // Replace with your actual project ID
 
-// Database configuration
+// Database configuration. Attributes added since the collections were
+// created are set up by scripts/setup-appwrite.mjs.
 export const DATABASE_ID = "67d6b079002144822b5e";
 export const USERS_COLLECTION_ID = "67d6b0ac000fc4ecaaaf";
 export const SUBJECTS_COLLECTION_ID = "67d6b0be003d69d6d863";
@@ -285,119 +293,461 @@ export const updateUserSyncPreference = async (
   }
 };
 
-export const syncSubjectsToCloud = async (userId: string, subjects: any[]) => {
-  if (!ENABLE_CLOUD_FEATURES || !databases) {
-    return false;
-  }
+// Sync writes only what changed between the local subjects and the remote
+// documents, matched by their stable subject and grade ids
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+const PAGE_SIZE = 100;
+const CONCURRENCY = 5;
+
+const createSyncResult = (): SyncResult => {
+  const emptyStats = () => ({ documents: 0, retries: 0, failures: 0 });
+  return {
+    success: true,
+    unchanged: 0,
+    operations: {
+      list: emptyStats(),
+      create: emptyStats(),
+      update: emptyStats(),
+      delete: emptyStats(),
+    },
+    failures: [],
+  };
+};
 
-  try {
-    // First, delete all existing subjects for this user
+// Network errors carry no status code; rate limits and server errors are
+// worth another try, other client errors are not
+const isRetryable = (error: any) =>
+  !error?.code || error.code === 429 || error.code >= 500;
+
+const withRetry = async <T>(
+  run: () => Promise<T>,
+  stats: SyncOperationStats
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
     try {
-      const existingSubjects = await databases.listDocuments(
-        DATABASE_ID,
-        SUBJECTS_COLLECTION_ID,
-        [Query.equal("userId", userId)]
+      return await run();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || !isRetryable(error)) {
+        throw error;
+      }
+      stats.retries++;
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1))
       );
+    }
+  }
+};
 
-      for (const doc of existingSubjects.documents) {
-        await databases.deleteDocument(
-          DATABASE_ID,
-          SUBJECTS_COLLECTION_ID,
-          doc.$id
-        );
-      }
-    } catch (error) {
-      console.error("Error deleting existing subjects:", error);
+// List every matching document, following the cursor past the page limit
+const listAllDocuments = async (
+  collectionId: string,
+  queries: string[],
+  result: SyncResult
+): Promise<Models.Document[]> => {
+  if (!databases) return [];
+  const db = databases;
+  const documents: Models.Document[] = [];
+
+  while (true) {
+    const cursor = documents[documents.length - 1]?.$id;
+    const page = await withRetry(
+      () =>
+        db.listDocuments(DATABASE_ID, collectionId, [
+          ...queries,
+          Query.limit(PAGE_SIZE),
+          ...(cursor ? [Query.cursorAfter(cursor)] : []),
+        ]),
+      result.operations.list
+    );
+    documents.push(...page.documents);
+    result.operations.list.documents += page.documents.length;
+    if (page.documents.length < PAGE_SIZE) {
+      return documents;
     }
+  }
+};
 
-    // Then, create new subject documents
-    for (const subject of subjects) {
-      await databases.createDocument(
-        DATABASE_ID,
-        SUBJECTS_COLLECTION_ID,
-        ID.unique(),
-        {
-          userId: userId,
-          subjectid: subject.id,
-          name: subject.name,
-          averageGrade: subject.averageGrade || 0,
+const toSubjectDocument = (
+  userId: string,
+  subject: Subject,
+  position: number
+) => ({
+  userId,
+  subjectid: subject.id,
+  name: subject.name,
+  averageGrade: subject.averageGrade || 0,
+  archived: subject.archived || false,
+  position,
+  scale: subject.scale || null,
+  creditWeight: subject.creditWeight ?? null,
+  // Stored as JSON string attributes
+  weighting: subject.weighting ? JSON.stringify(subject.weighting) : null,
+  abitur: subject.abitur ? JSON.stringify(subject.abitur) : null,
+  updatedAt: subject.updatedAt || null,
+});
+
+const toGradeDocument = (userId: string, subjectId: string, grade: Grade) => ({
+  userId,
+  subjectId,
+  gradeId: grade.id,
+  gradeValue: grade.value,
+  type: grade.type,
+  date: grade.date,
+  weight: grade.weight || 1.0,
+  notation: grade.notation || null,
+  termId: grade.termId || null,
+  note: grade.note || null,
+  updatedAt: grade.updatedAt || null,
+});
+
+// Whether a remote document already holds every attribute of the payload
+const isUpToDate = (
+  remote: Models.Document,
+  payload: Record<string, unknown>
+) =>
+  Object.entries(payload).every(
+    ([key, value]) => (remote[key] ?? null) === value
+  );
+
+interface SyncTask {
+  operation: SyncOperation;
+  collection: SyncCollection;
+  id: string;
+  run: () => Promise<unknown>;
+}
+
+// Run tasks a few at a time and record each outcome
+const runTasks = async (tasks: SyncTask[], result: SyncResult) => {
+  for (let i = 0; i < tasks.length; i += CONCURRENCY) {
+    await Promise.all(
+      tasks.slice(i, i + CONCURRENCY).map(async (task) => {
+        const stats = result.operations[task.operation];
+        try {
+          await withRetry(task.run, stats);
+          stats.documents++;
+        } catch (error: any) {
+          stats.failures++;
+          result.failures.push({
+            operation: task.operation,
+            collection: task.collection,
+            id: task.id,
+            message: error?.message || String(error),
+          });
         }
-      );
+      })
+    );
+  }
+};
 
-      // Sync grades for this subject
-      await syncGradesToCloud(userId, subject.id, subject.grades || []);
-    }
+// Subject and grade documents this device wrote, by id and version, and
+// those it deleted. Realtime events for them echo its own writes.
+const ownWrites = new Set<string>();
+const OWN_WRITES_LIMIT = 1000;
 
-    return true;
-  } catch (error: any) {
-    console.error("Error syncing subjects to cloud:", error);
+const getWriteKey = (doc: Models.Document, deleted = false) =>
+  `${doc.$id}@${deleted ? "deleted" : doc.$updatedAt}`;
 
-    if (error.message && error.message.includes("NetworkError")) {
-      showNetworkErrorOnce();
-      return false;
+const rememberOwnWrite = (key: string) => {
+  ownWrites.add(key);
+  // Sets keep insertion order, so the oldest entry goes first
+  if (ownWrites.size > OWN_WRITES_LIMIT) {
+    ownWrites.delete(ownWrites.values().next().value!);
+  }
+};
+
+const rememberDocument = (doc: Models.Document) =>
+  rememberOwnWrite(getWriteKey(doc));
+
+// Plan creates and updates for local documents and deletes for remote
+// documents without a local counterpart, including duplicates left behind
+// by interrupted syncs
+const planTasks = (
+  collection: SyncCollection,
+  collectionId: string,
+  local: Map<string, Record<string, unknown>>,
+  remote: Models.Document[],
+  getKey: (doc: Models.Document) => string,
+  result: SyncResult
+) => {
+  const db = databases!;
+  const upserts: SyncTask[] = [];
+  const deletes: SyncTask[] = [];
+  const matched = new Set<string>();
+
+  for (const doc of remote) {
+    const key = getKey(doc);
+    const payload = local.get(key);
+    if (!payload || matched.has(key)) {
+      deletes.push({
+        operation: "delete",
+        collection,
+        id: key,
+        run: () => {
+          rememberOwnWrite(getWriteKey(doc, true));
+          return db.deleteDocument(DATABASE_ID, collectionId, doc.$id);
+        },
+      });
+      continue;
+    }
+
+    matched.add(key);
+    if (isUpToDate(doc, payload)) {
+      result.unchanged++;
     } else {
-      return false;
+      upserts.push({
+        operation: "update",
+        collection,
+        id: key,
+        run: () =>
+          db
+            .updateDocument(DATABASE_ID, collectionId, doc.$id, payload)
+            .then(rememberDocument),
+      });
+    }
+  }
+
+  for (const [key, payload] of local) {
+    if (!matched.has(key)) {
+      upserts.push({
+        operation: "create",
+        collection,
+        id: key,
+        run: () =>
+          db
+            .createDocument(DATABASE_ID, collectionId, ID.unique(), payload)
+            .then(rememberDocument),
+      });
     }
   }
+
+  return { upserts, deletes };
+};
+
+// Syncs run one after another so two saves never create the same document
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+export const syncSubjectsToCloud = (
+  userId: string,
+  subjects: Subject[]
+): Promise<SyncResult> => {
+  const run = syncQueue.then(() => runSync(userId, subjects));
+  syncQueue = run.catch(() => undefined);
+  return run;
 };
 
-export const syncGradesToCloud = async (
+const runSync = async (
   userId: string,
-  subjectId: string,
-  grades: any[]
-) => {
+  subjects: Subject[]
+): Promise<SyncResult> => {
+  const result = createSyncResult();
   if (!ENABLE_CLOUD_FEATURES || !databases) {
-    return false;
+    return { ...result, success: false };
   }
 
   try {
-    // First, delete all existing grades for this subject
-    try {
-      const existingGrades = await databases.listDocuments(
-        DATABASE_ID,
+    const [remoteSubjects, remoteGrades] = await Promise.all([
+      listAllDocuments(
+        SUBJECTS_COLLECTION_ID,
+        [Query.equal("userId", userId)],
+        result
+      ),
+      listAllDocuments(
         GRADES_COLLECTION_ID,
-        [Query.equal("userId", userId), Query.equal("subjectId", subjectId)]
-      );
+        [Query.equal("userId", userId)],
+        result
+      ),
+    ]);
+
+    const localSubjects = new Map(
+      subjects.map((subject, position) => [
+        subject.id,
+        toSubjectDocument(userId, subject, position),
+      ])
+    );
+    // Grades are keyed by subject as well, so moving ids never collide
+    const localGrades = new Map(
+      subjects.flatMap((subject) =>
+        (subject.grades || []).map((grade) => [
+          `${subject.id}/${grade.id}`,
+          toGradeDocument(userId, subject.id, grade),
+        ])
+      )
+    );
 
-      for (const doc of existingGrades.documents) {
-        await databases.deleteDocument(
-          DATABASE_ID,
-          GRADES_COLLECTION_ID,
-          doc.$id
-        );
-      }
-    } catch (error) {
-      console.error("Error deleting existing grades:", error);
-    }
+    const subjectTasks = planTasks(
+      "subjects",
+      SUBJECTS_COLLECTION_ID,
+      localSubjects,
+      remoteSubjects,
+      (doc) => doc.subjectid,
+      result
+    );
+    const gradeTasks = planTasks(
+      "grades",
+      GRADES_COLLECTION_ID,
+      localGrades,
+      remoteGrades,
+      (doc) => `${doc.subjectId}/${doc.gradeId}`,
+      result
+    );
 
-    // Then, create new grade documents
-    for (const grade of grades) {
-      await databases.createDocument(
-        DATABASE_ID,
-        GRADES_COLLECTION_ID,
-        ID.unique(),
-        {
-          userID: userId,
-          subjectID: subjectId,
-          gradeValue: grade.value,
-          type: grade.type,
-          date: grade.date,
-          weight: grade.weight || 1.0,
-        }
-      );
+    // Write new data before deleting old data, so an interrupted sync
+    // leaves extra documents behind rather than losing any
+    await runTasks([...subjectTasks.upserts, ...gradeTasks.upserts], result);
+    await runTasks([...gradeTasks.deletes, ...subjectTasks.deletes], result);
+  } catch (error: any) {
+    console.error("Error syncing subjects to cloud:", error);
+    result.failures.push({
+      operation: "list",
+      collection: "subjects",
+      id: userId,
+      message: error?.message || String(error),
+    });
+    if (error.message && error.message.includes("NetworkError")) {
+      showNetworkErrorOnce();
     }
+  }
 
-    return true;
-  } catch (error: any) {
-    console.error("Error syncing grades to cloud:", error);
+  result.success = result.failures.length === 0;
+  if (!result.success) {
+    console.error("Cloud sync finished with failures:", result.failures);
+  }
+  return result;
+};
+
+// Sync a single subject or grade, used when replaying queued offline
+// changes. A missing local payload deletes the remote documents.
+const runDocumentSync = async (
+  collection: SyncCollection,
+  collectionId: string,
+  queries: string[],
+  key: string,
+  payload: Record<string, unknown> | null,
+  getKey: (doc: Models.Document) => string
+): Promise<SyncResult> => {
+  const result = createSyncResult();
+  if (!ENABLE_CLOUD_FEATURES || !databases) {
+    return { ...result, success: false };
+  }
 
+  try {
+    const remote = await listAllDocuments(collectionId, queries, result);
+    const local = new Map(payload ? [[key, payload]] : []);
+    const tasks = planTasks(
+      collection,
+      collectionId,
+      local,
+      remote,
+      getKey,
+      result
+    );
+    await runTasks([...tasks.upserts, ...tasks.deletes], result);
+  } catch (error: any) {
+    console.error(`Error syncing ${collection} document ${key}:`, error);
+    result.failures.push({
+      operation: "list",
+      collection,
+      id: key,
+      message: error?.message || String(error),
+    });
     if (error.message && error.message.includes("NetworkError")) {
       showNetworkErrorOnce();
-      return false;
-    } else {
-      return false;
     }
   }
+
+  result.success = result.failures.length === 0;
+  return result;
+};
+
+export const syncSubjectDocument = (
+  userId: string,
+  subjectId: string,
+  subject: Subject | null,
+  position: number
+): Promise<SyncResult> => {
+  const run = syncQueue.then(() =>
+    runDocumentSync(
+      "subjects",
+      SUBJECTS_COLLECTION_ID,
+      [Query.equal("userId", userId), Query.equal("subjectid", subjectId)],
+      subjectId,
+      subject ? toSubjectDocument(userId, subject, position) : null,
+      (doc) => doc.subjectid
+    )
+  );
+  syncQueue = run.catch(() => undefined);
+  return run;
+};
+
+export const syncGradeDocument = (
+  userId: string,
+  subjectId: string,
+  gradeId: string,
+  grade: Grade | null
+): Promise<SyncResult> => {
+  const run = syncQueue.then(() =>
+    runDocumentSync(
+      "grades",
+      GRADES_COLLECTION_ID,
+      [
+        Query.equal("userId", userId),
+        Query.equal("subjectId", subjectId),
+        Query.equal("gradeId", gradeId),
+      ],
+      `${subjectId}/${gradeId}`,
+      grade ? toGradeDocument(userId, subjectId, grade) : null,
+      (doc) => `${doc.subjectId}/${doc.gradeId}`
+    )
+  );
+  syncQueue = run.catch(() => undefined);
+  return run;
+};
+
+// Call onChange whenever another device creates, updates or deletes a
+// subject or grade document of the user. Events caused by this device's own
+// syncs are ignored. Returns a function that ends the subscription.
+export const subscribeToSubjectChanges = (
+  userId: string,
+  onChange: () => void
+): (() => void) => {
+  if (!ENABLE_CLOUD_FEATURES || !appwriteClient) {
+    return () => undefined;
+  }
+
+  try {
+    return appwriteClient.subscribe<Models.Document>(
+      [
+        `databases.${DATABASE_ID}.collections.${SUBJECTS_COLLECTION_ID}.documents`,
+        `databases.${DATABASE_ID}.collections.${GRADES_COLLECTION_ID}.documents`,
+      ],
+      (event) => {
+        if (event.payload?.userId !== userId) return;
+
+        // An event may arrive before the write that caused it returns, so
+        // wait for the running syncs to record their writes
+        const deleted = event.events.some((name) => name.endsWith(".delete"));
+        const key = getWriteKey(event.payload, deleted);
+        syncQueue.then(() => {
+          if (!ownWrites.has(key)) onChange();
+        });
+      }
+    );
+  } catch (error) {
+    console.error("Error subscribing to realtime updates:", error);
+    return () => undefined;
+  }
+};
+
+// Parse a JSON string attribute of a subject document
+const parseJsonAttribute = (value?: string | null) => {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error("Error parsing subject attribute:", error);
+    return undefined;
+  }
 };
 
 export const getSubjectsFromCloud = async (userId: string) => {
@@ -406,37 +756,61 @@ export const getSubjectsFromCloud = async (userId: string) => {
   }
 
   try {
-    const subjects = await databases.listDocuments(
-      DATABASE_ID,
-      SUBJECTS_COLLECTION_ID,
-      [Query.equal("userId", userId)]
-    );
+    // Both collections are read in full once instead of once per subject
+    const stats = createSyncResult();
+    const [subjectDocs, gradeDocs] = await Promise.all([
+      listAllDocuments(
+        SUBJECTS_COLLECTION_ID,
+        [Query.equal("userId", userId), Query.orderAsc("position")],
+        stats
+      ),
+      listAllDocuments(
+        GRADES_COLLECTION_ID,
+        [Query.equal("userId", userId)],
+        stats
+      ),
+    ]);
 
-    const result = [];
+    const result: Subject[] = [];
 
-    for (const subjectDoc of subjects.documents) {
-      // Get grades for this subject
-      const grades = await databases.listDocuments(
-        DATABASE_ID,
-        GRADES_COLLECTION_ID,
-        [
-          Query.equal("userId", userId),
-          Query.equal("subjectId", subjectDoc.subjectId),
-        ]
-      );
+    for (const subjectDoc of subjectDocs) {
+      // Skip duplicates an interrupted sync may have left behind
+      if (result.some((subject) => subject.id === subjectDoc.subjectid)) {
+        continue;
+      }
 
-      const formattedGrades = grades.documents.map((grade) => ({
-        gradeValue: grade.value,
-        type: grade.type,
-        date: grade.date,
-        weight: grade.weight,
-      }));
+      const formattedGrades: Grade[] = [];
+      for (const grade of gradeDocs) {
+        if (
+          grade.subjectId !== subjectDoc.subjectid ||
+          formattedGrades.some((g) => g.id === grade.gradeId)
+        ) {
+          continue;
+        }
+        formattedGrades.push({
+          id: grade.gradeId,
+          value: grade.gradeValue,
+          type: grade.type,
+          date: grade.date,
+          weight: grade.weight,
+          ...(grade.notation && { notation: grade.notation }),
+          ...(grade.termId && { termId: grade.termId }),
+          ...(grade.note && { note: grade.note }),
+          ...(grade.updatedAt && { updatedAt: grade.updatedAt }),
+        });
+      }
 
       result.push({
-        id: subjectDoc.subjectId,
+        id: subjectDoc.subjectid,
         name: subjectDoc.name,
         grades: formattedGrades,
         averageGrade: subjectDoc.averageGrade,
+        archived: subjectDoc.archived || false,
+        weighting: parseJsonAttribute(subjectDoc.weighting),
+        abitur: parseJsonAttribute(subjectDoc.abitur),
+        scale: subjectDoc.scale || undefined,
+        creditWeight: subjectDoc.creditWeight ?? undefined,
+        updatedAt: subjectDoc.updatedAt || undefined,
       });
     }
 
@@ -0,0 +1,115 @@
+// Service worker for exam reminders. The app hands it the upcoming
+// reminders; it shows each one once it is due, when the app sends a new
+// schedule and on periodic background checks where the browser allows
+// them, so reminders also arrive while the app is closed.
+
+const STATE_CACHE = "exam-reminders"
+const STATE_URL = "/exam-reminders/state.json"
+// Same tag as in utils/reminderUtils.ts
+const PERIODIC_SYNC_TAG = "exam-reminders"
+
+// Local date as YYYY-MM-DD, like the dates of the assessments
+const toDay = (date) => date.toLocaleDateString("en-CA")
+
+const daysLeft = (today, date) => Math.round((Date.parse(date) - Date.parse(today)) / 86400000)
+
+const describeDaysLeft = (days) => (days === 0 ? "today" : days === 1 ? "tomorrow" : `in ${days} days`)
+
+// Scheduled reminders and the date each assessment was reminded of. Workers
+// have no localStorage, so this is kept in the cache storage.
+async function readState() {
+  const cache = await caches.open(STATE_CACHE)
+  const response = await cache.match(STATE_URL)
+  return response ? response.json() : { reminders: [], shown: {} }
+}
+
+async function writeState(state) {
+  const cache = await caches.open(STATE_CACHE)
+  await cache.put(STATE_URL, new Response(JSON.stringify(state), { headers: { "Content-Type": "application/json" } }))
+}
+
+async function showDueReminders(reminders) {
+  const state = await readState()
+  if (reminders) {
+    const ids = new Set(reminders.map((reminder) => reminder.id))
+    state.reminders = reminders
+    state.shown = Object.fromEntries(Object.entries(state.shown).filter(([id]) => ids.has(id)))
+  }
+
+  const today = toDay(new Date())
+  const due = state.reminders.filter(
+    (reminder) => reminder.remindOn <= today && today <= reminder.date && state.shown[reminder.id] !== reminder.date,
+  )
+  if (due.length === 0) {
+    await writeState(state)
+    return
+  }
+
+  // Recorded before showing, so an interrupted check never shows one twice
+  due.forEach((reminder) => {
+    state.shown[reminder.id] = reminder.date
+  })
+  await writeState(state)
+
+  await Promise.all(
+    due.map((reminder) =>
+      self.registration.showNotification(`${reminder.title} ${describeDaysLeft(daysLeft(today, reminder.date))}`, {
+        body: reminder.body,
+        tag: `assessment-${reminder.id}`,
+        data: { url: "/calendar" },
+      }),
+    ),
+  )
+
+  // Open windows remember them too, so the in-app banner does not repeat them
+  const clients = await self.clients.matchAll({ type: "window", includeUncontrolled: true })
+  const shown = due.map(({ id, date }) => ({ id, date }))
+  clients.forEach((client) => client.postMessage({ type: "remindersShown", reminders: shown }))
+}
+
+// Checks run one after another, so overlapping ones cannot both show the
+// same reminder
+let checking = Promise.resolve()
+
+function checkReminders(reminders) {
+  checking = checking
+    .then(() => showDueReminders(reminders))
+    .catch((error) => console.error("Error showing exam reminders:", error))
+  return checking
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting()
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim())
+})
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "schedule") {
+    event.waitUntil(checkReminders(event.data.reminders))
+  }
+})
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === PERIODIC_SYNC_TAG) {
+    event.waitUntil(checkReminders())
+  }
+})
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => c.url.startsWith(self.location.origin))
+      if (!client) {
+        return self.clients.openWindow(url)
+      }
+      // Only windows controlled by this worker can be navigated
+      return client.focus().then((focused) => focused.navigate(url).catch(() => focused))
+    }),
+  )
+})
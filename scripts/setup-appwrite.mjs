@@ -0,0 +1,94 @@
+// Creates the attributes the app writes to the Appwrite collections that
+// the original collections do not have. Appwrite rejects documents with
+// unknown attributes, so cloud sync fails until this has been run:
+//
+//   APPWRITE_API_KEY=<key with the databases.write scope> npm run setup:appwrite
+//
+// Attributes that already exist are skipped, so it is safe to run it again
+// after every update. APPWRITE_ENDPOINT and APPWRITE_PROJECT_ID override the
+// defaults used by lib/appwrite.ts.
+
+const endpoint = process.env.APPWRITE_ENDPOINT || "https://appwrite.nief.tech/v1";
+const projectId = process.env.APPWRITE_PROJECT_ID || "67d6ea990025fa097964";
+const apiKey = process.env.APPWRITE_API_KEY;
+
+// Same ids as in lib/appwrite.ts
+const DATABASE_ID = "67d6b079002144822b5e";
+const SUBJECTS_COLLECTION_ID = "67d6b0be003d69d6d863";
+const GRADES_COLLECTION_ID = "67d6b0c600002e7b01f5";
+
+// All optional, since documents written by earlier versions lack them
+const ATTRIBUTES = [
+  // Stable grade ids, so grades can be updated in place
+  { collection: GRADES_COLLECTION_ID, type: "string", key: "gradeId", size: 64 },
+  // Archived subjects and their order
+  { collection: SUBJECTS_COLLECTION_ID, type: "boolean", key: "archived", default: false },
+  { collection: SUBJECTS_COLLECTION_ID, type: "integer", key: "position", min: 0 },
+  // Grade types and weights of a subject, as JSON
+  { collection: SUBJECTS_COLLECTION_ID, type: "string", key: "weighting", size: 10000 },
+  // Grading scale of a subject
+  { collection: SUBJECTS_COLLECTION_ID, type: "string", key: "scale", size: 32 },
+  // Tendency notation such as 2- or 2-3
+  { collection: GRADES_COLLECTION_ID, type: "string", key: "notation", size: 16 },
+  // Term a grade belongs to
+  { collection: GRADES_COLLECTION_ID, type: "string", key: "termId", size: 64 },
+  // Credits of a subject for the overall average
+  { collection: SUBJECTS_COLLECTION_ID, type: "float", key: "creditWeight", min: 0 },
+  // Abitur course type, semester points and exam, as JSON
+  { collection: SUBJECTS_COLLECTION_ID, type: "string", key: "abitur", size: 2000 },
+  // Last change of a subject or grade, as an ISO string, for merging
+  { collection: SUBJECTS_COLLECTION_ID, type: "string", key: "updatedAt", size: 32 },
+  { collection: GRADES_COLLECTION_ID, type: "string", key: "updatedAt", size: 32 },
+  // Free-text note of a grade
+  { collection: GRADES_COLLECTION_ID, type: "string", key: "note", size: 1000 },
+];
+
+const collectionNames = {
+  [SUBJECTS_COLLECTION_ID]: "subjects",
+  [GRADES_COLLECTION_ID]: "grades",
+};
+
+async function createAttribute({ collection, type, key, ...options }) {
+  const response = await fetch(
+    `${endpoint}/databases/${DATABASE_ID}/collections/${collection}/attributes/${type}`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Appwrite-Project": projectId,
+        "X-Appwrite-Key": apiKey,
+      },
+      body: JSON.stringify({ key, required: false, ...options }),
+    }
+  );
+
+  // 409: the attribute already exists
+  if (response.status === 409) return "exists";
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.message || response.statusText);
+  }
+  return "created";
+}
+
+async function main() {
+  if (!apiKey) {
+    console.error("Set APPWRITE_API_KEY to an API key with the databases.write scope");
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const attribute of ATTRIBUTES) {
+    const name = `${collectionNames[attribute.collection]}.${attribute.key}`;
+    try {
+      console.log(`${name}: ${await createAttribute(attribute)}`);
+    } catch (error) {
+      failures++;
+      console.error(`${name}: ${error.message}`);
+    }
+  }
+  // New attributes are created in the background and usable after a moment
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
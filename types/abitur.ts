@@ -0,0 +1,39 @@
+export type CourseType = "LK" | "GK" // Leistungskurs counts double in block I
+
+export type ExamType = "written" | "oral"
+
+// Abitur data of a subject, stored on the Subject itself
+export interface AbiturCourse {
+  courseType: CourseType
+  semesters: (number | null)[] // Q1–Q4 results in points (0–15), null if not taken yet
+  counted: boolean[] // Which semesters are brought into block I
+  exam?: {
+    type: ExamType
+    points: number | null
+  }
+}
+
+export interface AbiturCheck {
+  id: string
+  label: string
+  passed: boolean
+  detail: string
+}
+
+export interface AbiturResult {
+  blockI: {
+    points: number // Scaled to at most 600
+    countedCourses: number
+    underachieved: number // Counted courses below 5 points
+    maxUnderachieved: number
+  }
+  blockII: {
+    points: number // At most 300
+    exams: number
+    examsPassed: number // Exams with at least 5 points
+  }
+  total: number // At most 900
+  finalGrade: number | null // null below 300 points
+  checks: AbiturCheck[]
+  passed: boolean // All checks met
+}
@@ -0,0 +1,22 @@
+import type { GradeType } from "./grades"
+
+// A Klassenarbeit or other assessment that has not been written yet. It
+// becomes a Grade once the result comes in.
+export interface UpcomingAssessment {
+  id: string
+  subjectId: string
+  date: string // YYYY-MM-DD
+  type: GradeType
+  topic?: string
+  weight: number // Expected weight of the resulting grade
+}
+
+// A reminder handed to the service worker, which shows it from remindOn
+// until the day of the assessment
+export interface ScheduledReminder {
+  id: string // Id of the assessment
+  date: string // YYYY-MM-DD
+  remindOn: string // YYYY-MM-DD
+  title: string // e.g. "Mathematics: Test"; the worker adds when it is
+  body: string
+}
@@ -0,0 +1,33 @@
+import type { Grade } from "./grades"
+
+export type CsvDelimiter = "," | ";" | "\t"
+
+// German spreadsheets write "1,5" and separate columns with ";"
+export interface CsvFormat {
+  delimiter: CsvDelimiter
+  decimalSeparator: "." | ","
+}
+
+export type CsvField = "subject" | "value" | "type" | "weight" | "date" | "note"
+
+// Column index for each field; unmapped fields fall back to defaults
+export type CsvColumnMapping = Partial<Record<CsvField, number>>
+
+export interface CsvRowError {
+  row: number // Line in the file, counting the header
+  message: string
+}
+
+// Grades read from a CSV file, grouped by subject name
+export interface CsvGradeGroup {
+  subjectName: string
+  grades: Grade[]
+}
+
+export interface CsvImportResult {
+  groups: CsvGradeGroup[]
+  gradeCount: number
+  newSubjects: string[] // Subjects that do not exist yet and will be created
+  errors: CsvRowError[] // Rows that will be skipped
+  warnings: CsvRowError[] // Rows imported with an adjusted grade
+}
@@ -0,0 +1,54 @@
+import type { UpcomingAssessment } from "./assessments"
+import type { Subject } from "./grades"
+import type { AppSettings } from "./settings"
+import type { Term } from "./terms"
+
+// Everything the app stores locally, as written to an export file
+export interface ExportFile {
+  app: string // Identifies files written by this app
+  version: number // Version of the file format
+  schemaVersion: number // Schema version of the subjects, see utils/migrations.ts
+  exportedAt: string
+  subjects: Subject[]
+  settings: AppSettings
+  terms: Term[]
+  assessments: UpcomingAssessment[]
+}
+
+// "merge" adds and updates subjects, grades, terms and assessments by id and keeps the
+// settings, the scale and weighting of existing subjects and archived terms;
+// "replace" drops everything not in the file
+export type ImportMode = "merge" | "replace"
+
+export interface ImportPreview {
+  subjectsAdded: string[] // Subject names
+  subjectsUpdated: string[]
+  subjectsRemoved: string[]
+  gradesAdded: number
+  gradesUpdated: number
+  gradesRemoved: number
+  termsAdded: number
+  termsUpdated: number
+  termsRemoved: number
+  termsSkipped: number // Archived on this device, so left unchanged
+  gradesSkipped: number // In a term archived on this device
+  assessmentsAdded: number
+  assessmentsUpdated: number
+  assessmentsRemoved: number
+  settingsChanged: boolean
+}
+
+// State after an import, computed before anything is saved
+export interface ImportPlan {
+  mode: ImportMode
+  subjects: Subject[]
+  terms: Term[]
+  assessments: UpcomingAssessment[]
+  settings: AppSettings
+  skipped: { grades: number; terms: number } // Left out by a merge
+  preview: ImportPreview
+}
+
+export type ParseExportResult =
+  | { success: true; file: ExportFile }
+  | { success: false; error: string }
@@ -1,10 +1,58 @@
-export type GradeType = "Test" | "Oral Exam" | "Homework" | "Project"
+import type { AbiturCourse } from "./abitur"
+
+// "german" is the 1–6 scale, "punkte" the 0–15 points used in grades 11–13.
+// Grades are stored in the scale of their subject.
+export type GradingScaleId =
+  | "german"
+  | "punkte"
+  | "percent"
+  | "letter"
+  | "swiss"
+  | "austrian"
+
+// Built-in types are "Test", "Oral Exam", "Homework" and "Project"; subjects may add their own
+export type GradeType = string
+
+export interface GradeTypeConfig {
+  name: GradeType
+  weight: number
+  category?: string // Id of the GradeCategory this type belongs to
+}
+
+// "pooled" averages all grades together, "categories" averages each category
+// separately and combines them by their share of the final grade
+export type CalculationMode = "pooled" | "categories"
+
+export interface GradeCategory {
+  id: string
+  name: string
+  share: number // Percentage of the final grade
+}
+
+export interface WeightingConfig {
+  mode?: CalculationMode
+  gradeTypes: GradeTypeConfig[]
+  categories?: GradeCategory[]
+}
+
+export interface CategoryBreakdown {
+  category: GradeCategory
+  gradeCount: number
+  average: number | null // null while the category has no grades
+  effectiveShare: number // Share after leaving out empty categories, 0..1
+  contribution: number // average * effectiveShare
+}
 
 export interface Grade {
+  id: string
   value: number
   type: GradeType
   date: string
   weight: number // Add weight property
+  notation?: string // Tendency notation as written, e.g. "2-"; value holds the mapped number
+  termId?: string // School term the grade belongs to
+  note?: string // Free text, e.g. the topic of a test
+  updatedAt?: string // ISO timestamp of the last change, used to merge devices
 }
 
 export interface Subject {
@@ -12,5 +60,34 @@ export interface Subject {
   name: string
   grades: Grade[]
   averageGrade?: number
+  archived?: boolean
+  weighting?: WeightingConfig
+  scale?: GradingScaleId // Falls back to the profile's default scale
+  creditWeight?: number // Weight in the overall average, e.g. 2 for Hauptfächer or hours per week
+  abitur?: AbiturCourse // Set for subjects taken in the Qualifikationsphase
+  updatedAt?: string // ISO timestamp of the last change to anything but the grades
+}
+
+export interface SubjectContribution {
+  subject: Subject
+  average: number | null // Converted to the overall scale; null without grades
+  creditWeight: number
+  effectiveShare: number // Share of the overall average, 0..1
+  contribution: number // average * effectiveShare
 }
 
+// An assessment that has not been graded yet, used for planning
+export interface PlannedAssessment {
+  id: string
+  type: GradeType
+  weight: number
+  date?: string
+}
+
+export interface GradeRequirement {
+  status: "reachable" | "unreachable" | "guaranteed" | "no-effect"
+  requiredValue: number | null // Exact grade every planned assessment needs
+  requiredGrade: number | null // Worst grade that can be entered and still reaches the target
+  bestAverage: number // Average if every planned assessment gets the best grade
+  worstAverage: number // Average if every planned assessment gets the worst grade
+}
@@ -0,0 +1,22 @@
+import type { Subject } from "./grades"
+
+// State of one subject around an edit; undefined where the subject did not
+// exist (added or deleted)
+export interface SubjectChange {
+  id: string
+  before?: Subject
+  after?: Subject
+}
+
+// One user edit that can be undone and redone. Only the subjects it touched
+// are kept, so other changes made in between (e.g. from another device) stay.
+export interface HistoryEntry {
+  label: string // Shown in the undo toast, e.g. "Grade deleted"
+  changes: SubjectChange[]
+  orderBefore: string[] // Subject ids in saved order
+  orderAfter: string[]
+}
+
+export type HistoryDirection = "undo" | "redo"
+
+export type HistoryAction = "record" | HistoryDirection | "clear"
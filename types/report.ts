@@ -0,0 +1,5 @@
+// Which grades a report covers
+export type ReportRange =
+  | { type: "all" }
+  | { type: "term"; termId: string }
+  | { type: "dates"; from: string; to: string } // YYYY-MM-DD, inclusive; empty for open ends
@@ -0,0 +1,35 @@
+import type { Subject } from "./grades"
+
+export type RepositoryKind = "indexeddb" | "localstorage" | "memory"
+
+// "save" snapshots roll over with every save, "daily" ones keep the last
+// state of each day
+export type SnapshotKind = "save" | "daily"
+
+export interface SnapshotInfo {
+  id: string
+  kind: SnapshotKind
+  createdAt: string
+  subjectCount: number
+  gradeCount: number
+}
+
+export interface Snapshot extends SnapshotInfo {
+  data: string // Subjects as JSON, only parsed when restoring
+}
+
+// Where subjects and their grades are kept on this device. Methods reject
+// when the underlying storage fails.
+export interface GradeRepository {
+  kind: RepositoryKind
+  getSubjects(): Promise<Subject[]> // In saved order; empty when nothing is stored
+  getSubject(id: string): Promise<Subject | undefined>
+  saveSubjects(subjects: Subject[]): Promise<void> // Replaces everything stored
+  getSchemaVersion(): Promise<number> // 0 for data saved before versions were stored
+  saveSchemaVersion(version: number): Promise<void>
+  listSnapshots(): Promise<SnapshotInfo[]> // Newest first
+  getSnapshot(id: string): Promise<Snapshot | undefined>
+  saveSnapshot(snapshot: Snapshot): Promise<void> // Replaces a snapshot with the same id
+  deleteSnapshots(ids: string[]): Promise<void>
+  clear(): Promise<void>
+}
@@ -0,0 +1,10 @@
+import type { GradingScaleId } from "./grades"
+
+export interface AppSettings {
+  gradingScale: GradingScaleId
+  tendencyOffset: number // How far "+" and "-" move a grade, e.g. 0.3 makes 2- = 2.3
+  selectedTermId?: string // Term shown on the dashboard; unset follows the active term
+  remindersEnabled: boolean // Remind of upcoming assessments
+  reminderLeadDays: number // Days before an assessment the reminder is shown
+  subjectReminderLeadDays?: Record<string, number> // Lead days by subject id, overriding the global one
+}
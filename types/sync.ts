@@ -0,0 +1,70 @@
+import type { Grade, Subject } from "./grades"
+
+export type SyncOperation = "list" | "create" | "update" | "delete"
+
+export type SyncCollection = "subjects" | "grades"
+
+export interface SyncOperationStats {
+  documents: number // Documents handled successfully
+  retries: number // Attempts repeated after a transient error
+  failures: number // Documents that failed after all retries
+}
+
+export interface SyncFailure {
+  operation: SyncOperation
+  collection: SyncCollection
+  id: string // Stable subject or grade id
+  message: string
+}
+
+export interface SyncResult {
+  success: boolean
+  unchanged: number // Documents already up to date
+  operations: Record<SyncOperation, SyncOperationStats>
+  failures: SyncFailure[]
+}
+
+export type OutboxMutationType =
+  | "addSubject"
+  | "updateSubject"
+  | "deleteSubject"
+  | "addGrade"
+  | "updateGrade"
+  | "deleteGrade"
+
+// A local change that has not reached the cloud yet. Entries only name the
+// changed subject or grade; replay sends its local state at that time.
+export interface OutboxEntry {
+  id: string
+  userId: string
+  type: OutboxMutationType
+  subjectId: string
+  gradeId?: string
+  createdAt: string // ISO timestamp of the first queued change
+  revision: number // Bumped by every later change to the same item
+  attempts: number // Failed replays so far
+  nextAttemptAt?: number // Epoch ms before which replay waits
+  lastError?: string
+}
+
+export type OutboxMutation = Pick<OutboxEntry, "type" | "subjectId" | "gradeId">
+
+export type ConflictSide = "local" | "remote"
+
+// A subject without its grades, which are merged one by one
+export type SubjectFields = Omit<Subject, "grades">
+
+// The same subject or grade was changed differently on this device and in
+// the cloud since the last sync. The merge keeps the newer version until the
+// user picks one.
+export type SyncConflict = {
+  id: string
+  userId: string
+  subjectId: string
+  subjectName: string
+  kept: ConflictSide // Version the merge applied
+  detectedAt: string
+} & (
+  | { kind: "subject"; local: SubjectFields; remote: SubjectFields }
+  | { kind: "grade"; gradeId: string; local: Grade; remote: Grade }
+)
@@ -0,0 +1,9 @@
+export interface Term {
+  id: string
+  name: string // e.g. "2024/25 1. Halbjahr"
+  startDate: string // YYYY-MM-DD, inclusive
+  endDate: string // YYYY-MM-DD, inclusive
+  active: boolean // New grades go into the active term
+  archived?: boolean // Past terms are read-only
+  frozenAverages?: Record<string, number> // Subject id -> average when the term was archived
+}
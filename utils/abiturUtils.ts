@@ -0,0 +1,163 @@
+import type {
+  AbiturCheck,
+  AbiturCourse,
+  AbiturResult,
+  CourseType,
+} from "../types/abitur";
+import type { Subject } from "../types/grades";
+
+// Rules follow the KMK agreement on the gymnasiale Oberstufe. States differ
+// in details such as mandatory courses, which are not checked here.
+export const SEMESTER_LABELS = ["Q1", "Q2", "Q3", "Q4"];
+export const REQUIRED_COURSES = 40; // Semester results brought into block I
+export const MAX_UNDERACHIEVED = 8; // Counted courses below 5 points
+export const EXAM_COUNT = 5;
+export const MIN_BLOCK_I = 200;
+export const MIN_BLOCK_II = 100;
+export const MIN_TOTAL = 300;
+const BLOCK_I_MAX = 600;
+const EXAM_FACTOR = 4;
+const PASS_POINTS = 5;
+
+export function createAbiturCourse(courseType: CourseType): AbiturCourse {
+  return {
+    courseType,
+    semesters: SEMESTER_LABELS.map(() => null),
+    counted: SEMESTER_LABELS.map(() => true),
+  };
+}
+
+// Subjects taken in the Qualifikationsphase
+export function getAbiturSubjects(subjects: Subject[]): Subject[] {
+  return subjects.filter((subject) => subject.abitur);
+}
+
+// Final grade from the total: N = 17/3 - E/180, cut off after one decimal.
+// 823 points and more give 1.0.
+export function calculateAbiturGrade(total: number): number | null {
+  if (total < MIN_TOTAL) return null;
+  const grade = 17 / 3 - total / 180;
+  // Small epsilon so exact boundaries like 4.0 are not cut down to 3.9
+  return Math.max(1, Math.floor(grade * 10 + 1e-9) / 10);
+}
+
+export function calculateAbitur(subjects: Subject[]): AbiturResult {
+  const courses = getAbiturSubjects(subjects).map(
+    (subject) => subject.abitur!
+  );
+
+  // Block I: counted semester results, Leistungskurse count double
+  let points = 0;
+  let weightedCourses = 0;
+  let countedCourses = 0;
+  let underachieved = 0;
+  let zeroCourses = 0;
+  for (const course of courses) {
+    const factor = course.courseType === "LK" ? 2 : 1;
+    course.semesters.forEach((result, index) => {
+      if (result === null || !course.counted[index]) return;
+      points += result * factor;
+      weightedCourses += factor;
+      countedCourses++;
+      if (result < PASS_POINTS) underachieved++;
+      if (result === 0) zeroCourses++;
+    });
+  }
+  const blockIPoints =
+    weightedCourses > 0
+      ? Math.min(BLOCK_I_MAX, Math.round((points / weightedCourses) * 40))
+      : 0;
+
+  // Block II: exam results count four times
+  const exams = courses.filter((course) => course.exam);
+  const examResults = exams
+    .map((course) => ({
+      courseType: course.courseType,
+      points: course.exam!.points,
+    }))
+    .filter(
+      (exam): exam is { courseType: CourseType; points: number } =>
+        exam.points !== null
+    );
+  const blockIIPoints = examResults.reduce(
+    (sum, exam) => sum + exam.points * EXAM_FACTOR,
+    0
+  );
+  const passedExams = examResults.filter((exam) => exam.points >= PASS_POINTS);
+  const passedLkExam = passedExams.some((exam) => exam.courseType === "LK");
+
+  const total = blockIPoints + blockIIPoints;
+
+  const checks: AbiturCheck[] = [
+    {
+      id: "courses",
+      label: `${REQUIRED_COURSES} courses in block I`,
+      passed: countedCourses === REQUIRED_COURSES,
+      detail: `${countedCourses} of ${REQUIRED_COURSES} courses counted`,
+    },
+    {
+      id: "underachieved",
+      label: `At most ${MAX_UNDERACHIEVED} courses below ${PASS_POINTS} points`,
+      passed: underachieved <= MAX_UNDERACHIEVED,
+      detail: `${underachieved} underachieved course${
+        underachieved !== 1 ? "s" : ""
+      }`,
+    },
+    {
+      id: "zero",
+      label: "No counted course with 0 points",
+      passed: zeroCourses === 0,
+      detail: `${zeroCourses} course${zeroCourses !== 1 ? "s" : ""} with 0 points`,
+    },
+    {
+      id: "blockI",
+      label: `At least ${MIN_BLOCK_I} points in block I`,
+      passed: blockIPoints >= MIN_BLOCK_I,
+      detail: `${blockIPoints} of ${BLOCK_I_MAX} points`,
+    },
+    {
+      id: "exams",
+      label: `${EXAM_COUNT} exam subjects`,
+      passed: exams.length === EXAM_COUNT,
+      detail: `${exams.length} exam subject${exams.length !== 1 ? "s" : ""} chosen`,
+    },
+    {
+      id: "examsPassed",
+      label: `At least 3 exams with ${PASS_POINTS} points, one of them in a Leistungskurs`,
+      passed: passedExams.length >= 3 && passedLkExam,
+      detail: `${passedExams.length} passed${
+        passedLkExam ? ", including a Leistungskurs" : ", none in a Leistungskurs"
+      }`,
+    },
+    {
+      id: "blockII",
+      label: `At least ${MIN_BLOCK_II} points in block II`,
+      passed: blockIIPoints >= MIN_BLOCK_II,
+      detail: `${blockIIPoints} of ${EXAM_COUNT * 15 * EXAM_FACTOR} points`,
+    },
+    {
+      id: "total",
+      label: `At least ${MIN_TOTAL} points in total`,
+      passed: total >= MIN_TOTAL,
+      detail: `${total} of ${BLOCK_I_MAX + EXAM_COUNT * 15 * EXAM_FACTOR} points`,
+    },
+  ];
+
+  return {
+    blockI: {
+      points: blockIPoints,
+      countedCourses,
+      underachieved,
+      maxUnderachieved: MAX_UNDERACHIEVED,
+    },
+    blockII: {
+      points: blockIIPoints,
+      exams: exams.length,
+      examsPassed: passedExams.length,
+    },
+    total,
+    finalGrade: calculateAbiturGrade(total),
+    checks,
+    passed: checks.every((check) => check.passed),
+  };
+}
@@ -0,0 +1,114 @@
+import type { UpcomingAssessment } from "../types/assessments";
+import type { Grade } from "../types/grades";
+import { addGradeToSubject, generateId } from "./storageUtils";
+
+const ASSESSMENTS_KEY = "gradeCalculatorAssessments";
+
+// Notify other components that upcoming assessments have changed
+export function notifyAssessmentsUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("assessmentsUpdated"));
+  }
+}
+
+// Read upcoming assessments from localStorage, ordered by date
+export function getAssessments(): UpcomingAssessment[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const assessmentsJson = localStorage.getItem(ASSESSMENTS_KEY);
+    if (!assessmentsJson) {
+      return [];
+    }
+    const assessments: UpcomingAssessment[] = JSON.parse(assessmentsJson);
+    return Array.isArray(assessments)
+      ? [...assessments].sort((a, b) => a.date.localeCompare(b.date))
+      : [];
+  } catch (error) {
+    console.error("Error reading assessments from localStorage:", error);
+    return [];
+  }
+}
+
+export function saveAssessments(assessments: UpcomingAssessment[]): boolean {
+  try {
+    localStorage.setItem(ASSESSMENTS_KEY, JSON.stringify(assessments));
+    notifyAssessmentsUpdated();
+    return true;
+  } catch (error) {
+    console.error("Error saving assessments to localStorage:", error);
+    return false;
+  }
+}
+
+export function addAssessment(
+  assessment: Omit<UpcomingAssessment, "id">
+): boolean {
+  return saveAssessments([
+    ...getAssessments(),
+    { ...assessment, id: generateId() },
+  ]);
+}
+
+export function updateAssessment(
+  assessmentId: string,
+  patch: Partial<Omit<UpcomingAssessment, "id">>
+): boolean {
+  const assessments = getAssessments();
+  if (!assessments.some((assessment) => assessment.id === assessmentId)) {
+    console.error(`Assessment with id ${assessmentId} not found`);
+    return false;
+  }
+  return saveAssessments(
+    assessments.map((assessment) =>
+      assessment.id === assessmentId
+        ? { ...assessment, ...patch, id: assessment.id }
+        : assessment
+    )
+  );
+}
+
+export function deleteAssessment(assessmentId: string): boolean {
+  const assessments = getAssessments();
+  if (!assessments.some((assessment) => assessment.id === assessmentId)) {
+    console.error(`Assessment with id ${assessmentId} not found`);
+    return false;
+  }
+  return saveAssessments(
+    assessments.filter((assessment) => assessment.id !== assessmentId)
+  );
+}
+
+// Record the result of an assessment as a grade of its subject. The
+// assessment is only removed once the grade has been saved.
+export async function completeAssessment(
+  assessmentId: string,
+  result: Pick<Grade, "value" | "notation">,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  const assessment = getAssessments().find((a) => a.id === assessmentId);
+  if (!assessment) {
+    console.error(`Assessment with id ${assessmentId} not found`);
+    return false;
+  }
+
+  const grade: Grade = {
+    id: generateId(),
+    value: result.value,
+    type: assessment.type,
+    date: assessment.date,
+    weight: assessment.weight,
+    ...(result.notation && { notation: result.notation }),
+    ...(assessment.topic && { note: assessment.topic }),
+  };
+  const success = await addGradeToSubject(
+    assessment.subjectId,
+    grade,
+    userId,
+    syncEnabled
+  );
+  return success && deleteAssessment(assessmentId);
+}
@@ -0,0 +1,378 @@
+import type { Grade, GradingScaleId, Subject } from "../types/grades";
+import type { Term } from "../types/terms";
+import type {
+  CsvColumnMapping,
+  CsvDelimiter,
+  CsvField,
+  CsvFormat,
+  CsvGradeGroup,
+  CsvImportResult,
+  CsvRowError,
+} from "../types/csv";
+import {
+  formatGrade,
+  getSubjectScale,
+  roundToStep,
+  validateGradeValue,
+  type GradingScale,
+} from "./gradingScales";
+import { getToday } from "./reminderUtils";
+import { generateId, getGradeTypes, getTypeWeight } from "./storageUtils";
+import { parseGradeInput, parseTendencyNotation } from "./tendencyUtils";
+import { findTermForDate, isTermArchived } from "./termUtils";
+
+export const CSV_FORMATS: Record<"german" | "english", CsvFormat> = {
+  german: { delimiter: ";", decimalSeparator: "," },
+  english: { delimiter: ",", decimalSeparator: "." },
+};
+
+export const CSV_FIELDS: { field: CsvField; label: string }[] = [
+  { field: "subject", label: "Subject" },
+  { field: "value", label: "Grade" },
+  { field: "type", label: "Type" },
+  { field: "weight", label: "Weight" },
+  { field: "date", label: "Date" },
+  { field: "note", label: "Note" },
+];
+
+// Header names recognised when guessing the mapping, in English and German.
+// "Note" means grade in German, so it is left to the format.
+const HEADER_NAMES: Record<CsvField, string[]> = {
+  subject: ["subject", "course", "fach", "kurs"],
+  value: ["grade", "value", "mark", "points", "wert", "punkte", "zensur"],
+  type: ["type", "kind", "category", "art", "typ", "kategorie"],
+  weight: ["weight", "weighting", "gewicht", "gewichtung", "faktor"],
+  date: ["date", "datum"],
+  note: [
+    "notes",
+    "comment",
+    "remark",
+    "topic",
+    "bemerkung",
+    "kommentar",
+    "notiz",
+    "thema",
+  ],
+};
+
+// Split CSV text into rows of cells. Quoted cells may contain delimiters,
+// line breaks and doubled quotes.
+export function parseCsv(text: string, delimiter: CsvDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  // Spreadsheet apps often start the file with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Guess the format from the delimiter used most in the first line
+export function detectCsvFormat(text: string): CsvFormat {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/)[0] ?? "";
+  const count = (delimiter: string) =>
+    firstLine.replace(/"[^"]*"/g, "").split(delimiter).length - 1;
+
+  const delimiter = ([";", "\t", ","] as CsvDelimiter[]).reduce((best, d) =>
+    count(d) > count(best) ? d : best
+  );
+  return delimiter === ";"
+    ? CSV_FORMATS.german
+    : { delimiter, decimalSeparator: "." };
+}
+
+// Quote cells that would otherwise be split or trimmed
+function formatCsvCell(value: string, delimiter: CsvDelimiter): string {
+  return /["\r\n]/.test(value) ||
+    value.includes(delimiter) ||
+    value.trim() !== value
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+export function formatCsv(rows: string[][], delimiter: CsvDelimiter): string {
+  return rows
+    .map((row) =>
+      row.map((cell) => formatCsvCell(cell, delimiter)).join(delimiter)
+    )
+    .join("\r\n");
+}
+
+const formatDecimal = (value: string, format: CsvFormat) =>
+  format.decimalSeparator === "," && /^-?\d+\.\d+$/.test(value)
+    ? value.replace(".", ",")
+    : value;
+
+// One row per grade, with the subject in the first column
+export function subjectsToCsv(
+  subjects: Subject[],
+  format: CsvFormat,
+  defaultScaleId?: GradingScaleId
+): string {
+  const header = CSV_FIELDS.map(({ label }) => label);
+  const rows = subjects.flatMap((subject) => {
+    const scale = getSubjectScale(subject, defaultScaleId);
+    return subject.grades.map((grade) => [
+      subject.name,
+      formatDecimal(formatGrade(grade, scale), format),
+      grade.type,
+      formatDecimal(String(grade.weight ?? 1), format),
+      grade.date,
+      grade.note ?? "",
+    ]);
+  });
+  return formatCsv([header, ...rows], format.delimiter);
+}
+
+// Map header cells to fields by their names
+export function guessColumnMapping(
+  header: string[],
+  format: CsvFormat
+): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  header.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase();
+    const field =
+      name === "note"
+        ? format.decimalSeparator === ","
+          ? "value"
+          : "note"
+        : CSV_FIELDS.find(({ field }) => HEADER_NAMES[field].includes(name))
+            ?.field;
+    if (field && mapping[field] === undefined) {
+      mapping[field] = index;
+    }
+  });
+  return mapping;
+}
+
+// Accepts YYYY-MM-DD, DD.MM.YYYY and dates with slashes, which are read as
+// DD/MM/YYYY in German files and MM/DD/YYYY otherwise
+function parseCsvDate(input: string, format: CsvFormat): string | null {
+  const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dotted = input.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/);
+  const slashed = input.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+
+  let parts: [string, string, string] | null = null;
+  if (iso) {
+    parts = [iso[1], iso[2], iso[3]];
+  } else if (dotted) {
+    parts = [dotted[3], dotted[2], dotted[1]];
+  } else if (slashed) {
+    parts =
+      format.decimalSeparator === ","
+        ? [slashed[3], slashed[2], slashed[1]]
+        : [slashed[3], slashed[1], slashed[2]];
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+  const fullYear = year.length === 2 ? `20${year}` : year;
+  const date = `${fullYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  // Rejects dates like 31.02.
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date)
+    ? date
+    : null;
+}
+
+function parseCsvNumber(input: string, format: CsvFormat): number | null {
+  const normalized =
+    format.decimalSeparator === "," ? input.replace(",", ".") : input;
+  const value = Number(normalized);
+  return normalized && !isNaN(value) ? value : null;
+}
+
+type CsvGrade =
+  | { value: number; notation?: string; adjusted?: string; error?: undefined }
+  | { error: string };
+
+// Spreadsheets often hold values like 1,5 or 2,3 that are not single grades
+// on scales with whole steps. They are read as tendency notation where one
+// matches, e.g. 1,5 as 1-2, and rounded to the scale otherwise.
+function parseCsvGrade(
+  input: string,
+  scale: GradingScale,
+  tendencyOffset: number
+): CsvGrade {
+  const parsed = parseGradeInput(input, scale, tendencyOffset);
+  const value = scale.parse(input);
+  if (
+    parsed.error === undefined ||
+    value === null ||
+    value < scale.min ||
+    value > scale.max
+  ) {
+    return parsed;
+  }
+
+  if (scale.supportsTendency) {
+    const base = Math.floor(value);
+    const tendency = [`${base}-${base + 1}`, `${base}-`, `${base + 1}+`]
+      .map((notation) => parseTendencyNotation(notation, tendencyOffset))
+      .find(
+        (candidate) =>
+          candidate &&
+          Math.abs(candidate.value - value) < 0.005 &&
+          parseGradeInput(candidate.notation, scale, tendencyOffset).error ===
+            undefined
+      );
+    if (tendency) {
+      return { ...tendency, adjusted: `${input} read as ${tendency.notation}` };
+    }
+  }
+
+  const rounded = scale.values
+    ? scale.values.reduce((best, v) =>
+        Math.abs(v - value) < Math.abs(best - value) ? v : best
+      )
+    : scale.min + roundToStep(value - scale.min, scale.step);
+  if (validateGradeValue(rounded, scale)) return parsed;
+  return {
+    value: rounded,
+    adjusted: `${input} rounded to ${scale.format(rounded)}`,
+  };
+}
+
+export interface CsvMappingOptions {
+  format: CsvFormat;
+  subjects: Subject[];
+  defaultSubject?: Subject; // Used for rows without a subject column
+  defaultScaleId?: GradingScaleId;
+  tendencyOffset: number;
+  terms: Term[];
+  firstRow: number; // Line of the first data row in the file
+}
+
+// Turn CSV rows into grades. Rows with errors are reported and left out, so
+// the remaining rows can still be imported; adjusted grades are reported as
+// warnings.
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  options: CsvMappingOptions
+): CsvImportResult {
+  const { format, subjects, defaultSubject, terms } = options;
+  const groups = new Map<string, CsvGradeGroup>();
+  const errors: CsvRowError[] = [];
+  const warnings: CsvRowError[] = [];
+  // Rows without a date get today's local date, not the UTC one
+  const today = getToday();
+  let gradeCount = 0;
+
+  const cellOf = (row: string[], field: CsvField) => {
+    const index = mapping[field];
+    return index === undefined ? undefined : (row[index] ?? "").trim();
+  };
+
+  rows.forEach((row, index) => {
+    const line = options.firstRow + index;
+    if (row.every((cell) => !cell.trim())) return;
+    const fail = (message: string) => errors.push({ row: line, message });
+
+    const subjectName = cellOf(row, "subject") || defaultSubject?.name;
+    if (!subjectName) return fail("Missing subject");
+    const subject = subjects.find(
+      (s) => s.name.trim().toLowerCase() === subjectName.toLowerCase()
+    );
+    const scale = getSubjectScale(subject, options.defaultScaleId);
+
+    const valueCell = cellOf(row, "value");
+    if (!valueCell) return fail("Missing grade");
+    const parsed = parseCsvGrade(valueCell, scale, options.tendencyOffset);
+    if (parsed.error !== undefined) {
+      return fail(`${parsed.error} (${valueCell})`);
+    }
+
+    const type =
+      cellOf(row, "type") ||
+      getGradeTypes(subject?.weighting)[0]?.name ||
+      "Test";
+
+    const weightCell = cellOf(row, "weight");
+    const weight = weightCell
+      ? parseCsvNumber(weightCell, format)
+      : getTypeWeight(type, subject?.weighting);
+    if (weight === null || weight < 0) {
+      return fail(`Invalid weight "${weightCell}"`);
+    }
+
+    const dateCell = cellOf(row, "date");
+    if (dateCell === "") return fail("Missing date");
+    const date =
+      dateCell === undefined ? today : parseCsvDate(dateCell, format);
+    if (!date) return fail(`Invalid date "${dateCell}"`);
+    const term = findTermForDate(date, terms);
+    if (term && isTermArchived(term.id, terms)) {
+      return fail(`${date} falls into the archived term ${term.name}`);
+    }
+
+    const note = cellOf(row, "note");
+    const grade: Grade = {
+      id: generateId(),
+      value: parsed.value,
+      type,
+      date,
+      weight,
+      ...(parsed.notation && { notation: parsed.notation }),
+      ...(note && { note }),
+    };
+
+    const name = subject?.name ?? subjectName;
+    const key = name.toLowerCase();
+    const group = groups.get(key) ?? { subjectName: name, grades: [] };
+    group.grades.push(grade);
+    groups.set(key, group);
+    gradeCount++;
+    if (parsed.adjusted) warnings.push({ row: line, message: parsed.adjusted });
+  });
+
+  const newSubjects = [...groups.values()]
+    .map((group) => group.subjectName)
+    .filter(
+      (name) =>
+        !subjects.some(
+          (s) => s.name.trim().toLowerCase() === name.toLowerCase()
+        )
+    );
+
+  return {
+    groups: [...groups.values()],
+    gradeCount,
+    newSubjects,
+    errors,
+    warnings,
+  };
+}
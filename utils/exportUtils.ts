@@ -0,0 +1,546 @@
+import { z } from "zod";
+import type { UpcomingAssessment } from "../types/assessments";
+import type { Grade, GradingScaleId, Subject } from "../types/grades";
+import type { AppSettings } from "../types/settings";
+import type { Term } from "../types/terms";
+import type {
+  ExportFile,
+  ImportMode,
+  ImportPlan,
+  ImportPreview,
+  ParseExportResult,
+} from "../types/dataExport";
+import { getAssessments, saveAssessments } from "./assessmentUtils";
+import { canonicalJson } from "./mergeUtils";
+import { SCHEMA_VERSION } from "./migrations";
+import { GRADING_SCALES, convertGrade, getGradingScale } from "./gradingScales";
+import { DEFAULT_SETTINGS, getSettings, saveSettings } from "./settingsUtils";
+import { getTerms, saveTerms } from "./termUtils";
+import {
+  calculateSubjectAverage,
+  getSubjectsFromStorage,
+  migrateSubjects,
+  saveSubjectsToStorage,
+} from "./storageUtils";
+
+export const EXPORT_APP = "german-grade-calculator";
+export const EXPORT_VERSION = 1;
+
+const scaleIdSchema = z
+  .string()
+  .refine((id) => id in GRADING_SCALES, "Unknown grading scale")
+  .transform((id) => id as GradingScaleId);
+
+// Grade ids and weights are filled in by the migrations for files with an
+// older schema version
+const gradeSchema = z.object({
+  id: z.string().min(1).optional(),
+  value: z.number().finite(),
+  type: z.string(),
+  date: z.string(),
+  weight: z.number().finite().nonnegative().optional(),
+  notation: z.string().optional(),
+  termId: z.string().optional(),
+  note: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+const weightingSchema = z.object({
+  mode: z.enum(["pooled", "categories"]).optional(),
+  gradeTypes: z.array(
+    z.object({
+      name: z.string(),
+      weight: z.number().finite().nonnegative(),
+      category: z.string().optional(),
+    })
+  ),
+  categories: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        share: z.number().finite().nonnegative(),
+      })
+    )
+    .optional(),
+});
+
+const abiturSchema = z.object({
+  courseType: z.enum(["LK", "GK"]),
+  semesters: z.array(z.number().finite().nullable()),
+  counted: z.array(z.boolean()),
+  exam: z
+    .object({
+      type: z.enum(["written", "oral"]),
+      points: z.number().finite().nullable(),
+    })
+    .optional(),
+});
+
+const subjectSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Subject name cannot be empty"),
+  grades: z.array(gradeSchema).default([]),
+  averageGrade: z.number().optional(),
+  archived: z.boolean().optional(),
+  weighting: weightingSchema.optional(),
+  scale: scaleIdSchema.optional(),
+  creditWeight: z.number().finite().positive().optional(),
+  abitur: abiturSchema.optional(),
+  updatedAt: z.string().optional(),
+});
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date as YYYY-MM-DD");
+
+const termSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  active: z.boolean(),
+  archived: z.boolean().optional(),
+  frozenAverages: z.record(z.number()).optional(),
+});
+
+const assessmentSchema = z.object({
+  id: z.string().min(1),
+  subjectId: z.string().min(1),
+  date: dateSchema,
+  type: z.string(),
+  topic: z.string().optional(),
+  weight: z.number().finite().nonnegative(),
+});
+
+const settingsSchema = z
+  .object({
+    gradingScale: scaleIdSchema,
+    tendencyOffset: z.number().finite().min(0),
+    selectedTermId: z.string().optional(),
+    remindersEnabled: z.boolean(),
+    reminderLeadDays: z.number().int().min(0),
+    subjectReminderLeadDays: z.record(z.number().int().min(0)).optional(),
+  })
+  .partial();
+
+const exportFileSchema = z
+  .object({
+    app: z.literal(EXPORT_APP, {
+      errorMap: () => ({ message: "Not an export of this app" }),
+    }),
+    version: z
+      .number()
+      .int()
+      .positive()
+      .max(EXPORT_VERSION, "File was exported by a newer version of the app"),
+    schemaVersion: z
+      .number()
+      .int()
+      .min(0)
+      .max(SCHEMA_VERSION, "File was exported by a newer version of the app"),
+    exportedAt: z.string(),
+    subjects: z.array(subjectSchema),
+    settings: settingsSchema.default({}),
+    terms: z.array(termSchema).default([]),
+    assessments: z.array(assessmentSchema).default([]),
+  })
+  .superRefine((file, context) => {
+    const ids = new Set<string>();
+    const names = new Set<string>();
+    file.subjects.forEach((subject, index) => {
+      const name = subject.name.toLowerCase();
+      if (ids.has(subject.id) || names.has(name)) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["subjects", index],
+          message: `Duplicate subject "${subject.name}"`,
+        });
+      }
+      ids.add(subject.id);
+      names.add(name);
+    });
+  });
+
+// Everything stored on this device, ready to be written to a file
+export async function createExportFile(
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<ExportFile> {
+  return {
+    app: EXPORT_APP,
+    version: EXPORT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    subjects: await getSubjectsFromStorage(userId, syncEnabled),
+    settings: getSettings(),
+    terms: getTerms(),
+    assessments: getAssessments(),
+  };
+}
+
+// Validate the contents of an export file and bring its subjects up to the
+// current schema
+export function parseExportFile(json: string): ParseExportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { success: false, error: "The file is not valid JSON" };
+  }
+
+  const result = exportFileSchema.safeParse(data);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const path = issue.path.join(".");
+    return {
+      success: false,
+      error: path ? `${path}: ${issue.message}` : issue.message,
+    };
+  }
+
+  const file = result.data;
+  try {
+    return {
+      success: true,
+      file: {
+        ...file,
+        subjects: migrateSubjects(
+          file.subjects as Subject[],
+          file.schemaVersion
+        ),
+        settings: { ...DEFAULT_SETTINGS, ...file.settings },
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error?.message || String(error) };
+  }
+}
+
+// Grades by id; grades from the file replace local ones with the same id
+function mergeGrades(local: Grade[], imported: Grade[]): Grade[] {
+  const importedById = new Map(imported.map((grade) => [grade.id, grade]));
+  const merged = local.map((grade) => importedById.get(grade.id) ?? grade);
+  const localIds = new Set(local.map((grade) => grade.id));
+  return [...merged, ...imported.filter((grade) => !localIds.has(grade.id))];
+}
+
+// Grades on another scale are converted; tendency notation only describes
+// the original value, so it is dropped
+const convertGrades = (
+  grades: Grade[],
+  from: GradingScaleId,
+  to: GradingScaleId
+) =>
+  from === to
+    ? grades
+    : grades.map((grade) => ({
+        ...grade,
+        value: convertGrade(
+          grade.value,
+          getGradingScale(from),
+          getGradingScale(to)
+        ),
+        notation: undefined,
+      }));
+
+interface SubjectMerge {
+  subjects: Subject[];
+  gradesSkipped: number;
+}
+
+// Subjects match by id, or by name, since the default subjects have the same
+// ids everywhere but subjects added by hand do not. Existing subjects keep
+// their scale and weighting. Grades of terms archived here are read-only and
+// left as they are.
+function mergeImportedSubjects(
+  local: Subject[],
+  imported: Subject[],
+  fileScaleId: GradingScaleId,
+  localScaleId: GradingScaleId,
+  archivedTermIds: Set<string>
+): SubjectMerge {
+  const merged = [...local];
+  let gradesSkipped = 0;
+  const isArchived = (grade?: Grade) =>
+    !!grade?.termId && archivedTermIds.has(grade.termId);
+
+  for (const subject of imported) {
+    const name = subject.name.trim().toLowerCase();
+    let index = merged.findIndex((s) => s.id === subject.id);
+    if (index === -1) {
+      index = merged.findIndex((s) => s.name.trim().toLowerCase() === name);
+    }
+    const existing = index === -1 ? undefined : merged[index];
+
+    const grades = subject.grades.filter((grade) => {
+      const localGrade = existing?.grades.find((g) => g.id === grade.id);
+      const skip = isArchived(grade) || isArchived(localGrade);
+      if (skip) gradesSkipped++;
+      return !skip;
+    });
+    const fromScaleId = subject.scale ?? fileScaleId;
+
+    if (!existing) {
+      // Pin the scale the grades were recorded on, in case it is not the
+      // default here
+      merged.push({
+        ...subject,
+        grades,
+        ...(fromScaleId !== localScaleId && { scale: fromScaleId }),
+      });
+      continue;
+    }
+
+    const { scale, weighting, ...fields } = subject;
+    const updatedSubject: Subject = {
+      ...existing,
+      ...fields,
+      id: existing.id,
+      grades: mergeGrades(
+        existing.grades,
+        convertGrades(grades, fromScaleId, existing.scale ?? localScaleId)
+      ),
+    };
+    merged[index] = {
+      ...updatedSubject,
+      averageGrade: calculateSubjectAverage(updatedSubject),
+    };
+  }
+  return { subjects: merged, gradesSkipped };
+}
+
+interface TermMerge {
+  terms: Term[];
+  termsSkipped: number;
+}
+
+// Terms by id; the local active term stays active and terms archived here
+// are not changed
+function mergeImportedTerms(local: Term[], imported: Term[]): TermMerge {
+  const hasActiveTerm = local.some((term) => term.active);
+  const byId = new Map(local.map((term) => [term.id, term]));
+  let termsSkipped = 0;
+  for (const term of imported) {
+    const existing = byId.get(term.id);
+    if (existing?.archived) {
+      if (canonicalJson(existing) !== canonicalJson(term)) termsSkipped++;
+      continue;
+    }
+    byId.set(term.id, {
+      ...term,
+      active: existing ? existing.active : term.active && !hasActiveTerm,
+    });
+  }
+  return { terms: [...byId.values()], termsSkipped };
+}
+
+// Assessments by id; those of subjects that were matched by name move to
+// the local subject
+function mergeImportedAssessments(
+  local: UpcomingAssessment[],
+  imported: UpcomingAssessment[],
+  importedSubjects: Subject[],
+  mergedSubjects: Subject[]
+): UpcomingAssessment[] {
+  const subjectIdFor = (subjectId: string) => {
+    const name = importedSubjects
+      .find((subject) => subject.id === subjectId)
+      ?.name.trim()
+      .toLowerCase();
+    const match =
+      mergedSubjects.find((subject) => subject.id === subjectId) ??
+      mergedSubjects.find(
+        (subject) => subject.name.trim().toLowerCase() === name
+      );
+    return match?.id ?? subjectId;
+  };
+
+  const byId = new Map(local.map((assessment) => [assessment.id, assessment]));
+  for (const assessment of imported) {
+    byId.set(assessment.id, {
+      ...assessment,
+      subjectId: subjectIdFor(assessment.subjectId),
+    });
+  }
+  return [...byId.values()];
+}
+
+// Timestamps and averages are derived, so they do not count as changes
+const comparable = ({ updatedAt, averageGrade, grades, ...rest }: Subject) =>
+  canonicalJson({
+    ...rest,
+    grades: grades.map(({ updatedAt, ...grade }) => grade),
+  });
+
+const countChanges = <T extends { id: string }>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string = canonicalJson
+) => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterIds = new Set(after.map((item) => item.id));
+  let added = 0;
+  let updated = 0;
+  for (const item of after) {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      added++;
+    } else if (key(previous) !== key(item)) {
+      updated++;
+    }
+  }
+  const removed = before.filter((item) => !afterIds.has(item.id)).length;
+  return { added, updated, removed };
+};
+
+function previewImport(
+  subjects: Subject[],
+  terms: Term[],
+  assessments: UpcomingAssessment[],
+  settings: AppSettings,
+  plan: Omit<ImportPlan, "mode" | "preview">
+): ImportPreview {
+  const subjectsById = new Map(
+    subjects.map((subject) => [subject.id, subject])
+  );
+  const nextIds = new Set(plan.subjects.map((subject) => subject.id));
+
+  const preview: ImportPreview = {
+    subjectsAdded: [],
+    subjectsUpdated: [],
+    subjectsRemoved: subjects
+      .filter((subject) => !nextIds.has(subject.id))
+      .map((subject) => subject.name),
+    gradesAdded: 0,
+    gradesUpdated: 0,
+    gradesRemoved: 0,
+    termsAdded: 0,
+    termsUpdated: 0,
+    termsRemoved: 0,
+    termsSkipped: plan.skipped.terms,
+    gradesSkipped: plan.skipped.grades,
+    assessmentsAdded: 0,
+    assessmentsUpdated: 0,
+    assessmentsRemoved: 0,
+    settingsChanged: canonicalJson(settings) !== canonicalJson(plan.settings),
+  };
+
+  for (const subject of plan.subjects) {
+    const previous = subjectsById.get(subject.id);
+    if (!previous) {
+      preview.subjectsAdded.push(subject.name);
+    } else if (comparable(previous) !== comparable(subject)) {
+      preview.subjectsUpdated.push(subject.name);
+    }
+  }
+
+  // Grade ids are unique per subject only
+  const allGrades = (list: Subject[]) =>
+    list.flatMap((subject) =>
+      subject.grades.map((grade) => ({
+        ...grade,
+        id: `${subject.id}/${grade.id}`,
+      }))
+    );
+  const grades = countChanges(
+    allGrades(subjects),
+    allGrades(plan.subjects),
+    ({ updatedAt, ...grade }) => canonicalJson(grade)
+  );
+  preview.gradesAdded = grades.added;
+  preview.gradesUpdated = grades.updated;
+  preview.gradesRemoved = grades.removed;
+
+  const termChanges = countChanges(terms, plan.terms);
+  preview.termsAdded = termChanges.added;
+  preview.termsUpdated = termChanges.updated;
+  preview.termsRemoved = termChanges.removed;
+
+  const assessmentChanges = countChanges(assessments, plan.assessments);
+  preview.assessmentsAdded = assessmentChanges.added;
+  preview.assessmentsUpdated = assessmentChanges.updated;
+  preview.assessmentsRemoved = assessmentChanges.removed;
+
+  return preview;
+}
+
+// Work out what an import would change without saving anything
+export async function planImport(
+  file: ExportFile,
+  mode: ImportMode,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<ImportPlan> {
+  const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+  const terms = getTerms();
+  const assessments = getAssessments();
+  const settings = getSettings();
+
+  let next: Omit<ImportPlan, "mode" | "preview">;
+  if (mode === "replace") {
+    next = {
+      subjects: file.subjects,
+      terms: file.terms,
+      assessments: file.assessments,
+      settings: file.settings,
+      skipped: { grades: 0, terms: 0 },
+    };
+  } else {
+    const archivedTermIds = new Set(
+      terms.filter((term) => term.archived).map((term) => term.id)
+    );
+    const subjectMerge = mergeImportedSubjects(
+      subjects,
+      file.subjects,
+      file.settings.gradingScale,
+      settings.gradingScale,
+      archivedTermIds
+    );
+    const termMerge = mergeImportedTerms(terms, file.terms);
+    next = {
+      subjects: subjectMerge.subjects,
+      terms: termMerge.terms,
+      assessments: mergeImportedAssessments(
+        assessments,
+        file.assessments,
+        file.subjects,
+        subjectMerge.subjects
+      ),
+      settings,
+      skipped: {
+        grades: subjectMerge.gradesSkipped,
+        terms: termMerge.termsSkipped,
+      },
+    };
+  }
+
+  return {
+    mode,
+    ...next,
+    preview: previewImport(subjects, terms, assessments, settings, next),
+  };
+}
+
+// Save the result of an import. The subjects can be undone like any edit.
+export async function applyImport(
+  plan: ImportPlan,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    // Terms first, so grades never point to a term that does not exist yet
+    if (!saveTerms(plan.terms)) return false;
+    if (plan.mode === "replace" && !saveSettings(plan.settings)) return false;
+    if (!saveAssessments(plan.assessments)) return false;
+    return await saveSubjectsToStorage(
+      plan.subjects,
+      userId,
+      syncEnabled,
+      "Data imported"
+    );
+  } catch (error) {
+    console.error("Error importing data:", error);
+    return false;
+  }
+}
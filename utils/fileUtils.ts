@@ -0,0 +1,18 @@
+// Let the browser save generated content as a file
+export function downloadFile(
+  content: string,
+  fileName: string,
+  type: string
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Today as YYYY-MM-DD in local time, for file names
+export function fileDateStamp(): string {
+  return new Date().toLocaleDateString("en-CA");
+}
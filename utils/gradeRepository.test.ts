@@ -0,0 +1,296 @@
+import "fake-indexeddb/auto";
+import { IDBFactory } from "fake-indexeddb";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Subject } from "../types/grades";
+import type { Snapshot } from "../types/repository";
+import { createIndexedDbRepository } from "./indexedDbRepository";
+
+// Key of the localStorage repository used by earlier versions
+const STORAGE_KEY = "gradeCalculator";
+
+// Saved by the first versions: no ids or weights
+const legacySubjects = [
+  {
+    id: "math",
+    name: "Mathematics",
+    grades: [
+      { value: 2, type: "Test", date: "2025-01-15" },
+      { value: 3, type: "Homework", date: "2025-02-01" },
+    ],
+  },
+  { id: "english", name: "English", grades: [] },
+];
+
+const snapshot = (id: string, createdAt: string, data = "[]"): Snapshot => ({
+  id,
+  kind: "save",
+  createdAt,
+  subjectCount: 0,
+  gradeCount: 0,
+  data,
+});
+
+// The repository is opened once per page, so each test loads a fresh copy
+const openRepository = async () => {
+  const { getGradeRepository } = await import("./gradeRepository");
+  return getGradeRepository();
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  indexedDB = new IDBFactory();
+});
+
+afterEach(() => {
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe("IndexedDB repository", () => {
+  it("stores subjects with one record per grade", async () => {
+    const repository = await createIndexedDbRepository();
+    const subjects: Subject[] = [
+      {
+        id: "math",
+        name: "Mathematics",
+        grades: [
+          { id: "g1", value: 2, type: "Test", date: "2025-01-15", weight: 2 },
+        ],
+      },
+    ];
+
+    await repository.saveSubjects(subjects);
+
+    expect(await repository.getSubjects()).toEqual(subjects);
+  });
+
+  it("stores nothing when a record is rejected", async () => {
+    const repository = await createIndexedDbRepository();
+
+    await expect(
+      repository.saveSubjects(legacySubjects as Subject[])
+    ).rejects.toThrow();
+    expect(await repository.getSubjects()).toEqual([]);
+  });
+});
+
+describe("moving subjects out of localStorage", () => {
+  beforeEach(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(legacySubjects));
+  });
+
+  it("gives grades ids and removes the old copy", async () => {
+    const repository = await openRepository();
+    const [math, english] = await repository.getSubjects();
+
+    expect(repository.kind).toBe("indexeddb");
+    expect(math.grades.map((grade) => grade.value)).toEqual([2, 3]);
+    expect(math.grades.every((grade) => grade.id)).toBe(true);
+    expect(english.grades).toEqual([]);
+    expect(await repository.getSchemaVersion()).toBe(0);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+
+  it("keeps the old copy when the subjects cannot be moved", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // The copy the freshly loaded repository uses
+    const { MIGRATIONS } = await import("./migrations");
+    vi.spyOn(MIGRATIONS[1], "migrate").mockImplementation(() => {
+      throw new Error("Unexpected grade");
+    });
+
+    const repository = await openRepository();
+
+    expect(repository.kind).toBe("localstorage");
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual(
+      legacySubjects
+    );
+    const database = await createIndexedDbRepository();
+    expect(await database.getSubjects()).toEqual([]);
+  });
+
+  it("keeps the old copy as a snapshot if IndexedDB has subjects", async () => {
+    const database = await createIndexedDbRepository();
+    const current: Subject[] = [{ id: "art", name: "Art", grades: [] }];
+    await database.saveSubjects(current);
+
+    const repository = await openRepository();
+    const [snapshot] = await repository.listSnapshots();
+
+    expect(await repository.getSubjects()).toEqual(current);
+    expect(snapshot).toMatchObject({ subjectCount: 2, gradeCount: 2 });
+    const { data } = (await repository.getSnapshot(snapshot.id))!;
+    expect(JSON.parse(data)).toEqual(legacySubjects);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe("importing the cookie of the first versions", () => {
+  const COOKIE_NAME = "gradeCalculator";
+
+  const getCookie = () =>
+    document.cookie
+      .split("; ")
+      .find((entry) => entry.startsWith(`${COOKIE_NAME}=`));
+
+  const setCookie = (value: string) => {
+    document.cookie = `${COOKIE_NAME}=${encodeURIComponent(value)}; path=/`;
+  };
+
+  afterEach(() => {
+    document.cookie = `${COOKIE_NAME}=; path=/; max-age=0`;
+  });
+
+  it("gives grades ids and removes the cookie", async () => {
+    setCookie(JSON.stringify(legacySubjects));
+
+    const repository = await openRepository();
+    const [math] = await repository.getSubjects();
+
+    expect(repository.kind).toBe("indexeddb");
+    expect(math.grades.map((grade) => grade.value)).toEqual([2, 3]);
+    expect(math.grades.every((grade) => grade.id)).toBe(true);
+    expect(getCookie()).toBeUndefined();
+  });
+
+  it("keeps the cookie when the subjects cannot be stored", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { MIGRATIONS } = await import("./migrations");
+    vi.spyOn(MIGRATIONS[1], "migrate").mockImplementation(() => {
+      throw new Error("Unexpected grade");
+    });
+    setCookie(JSON.stringify(legacySubjects));
+
+    const repository = await openRepository();
+
+    expect(repository.kind).toBe("localstorage");
+    expect(getCookie()).toBeDefined();
+    const database = await createIndexedDbRepository();
+    expect(await database.getSubjects()).toEqual([]);
+  });
+
+  it("removes a cookie that cannot be read", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    setCookie("[{");
+
+    const repository = await openRepository();
+
+    expect(repository.kind).toBe("indexeddb");
+    expect(await repository.getSubjects()).toEqual([]);
+    expect(getCookie()).toBeUndefined();
+  });
+});
+
+describe("unreadable subjects in localStorage", () => {
+  const CORRUPTED_KEY = "gradeCalculatorCorrupted";
+  const unreadable = '[{"id": "math", "grades": [';
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, unreadable);
+  });
+
+  it("are moved aside once a copy is kept", async () => {
+    await openRepository();
+    const { getCorruptedData } = await import("./gradeRepository");
+    const { getStorageFailure } = await import("./storageFailure");
+
+    expect(localStorage.getItem(CORRUPTED_KEY)).toBe(unreadable);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    expect(getCorruptedData()).toBe(unreadable);
+    expect(getStorageFailure()).toBe("Saved subjects could not be read");
+  });
+
+  it("stay where they are if no copy can be kept", async () => {
+    const setItem = Storage.prototype.setItem;
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(function (
+      this: Storage,
+      key: string,
+      value: string
+    ) {
+      if (key === CORRUPTED_KEY) throw new Error("Quota exceeded");
+      setItem.call(this, key, value);
+    });
+
+    await openRepository();
+    const { getCorruptedData } = await import("./gradeRepository");
+
+    expect(localStorage.getItem(STORAGE_KEY)).toBe(unreadable);
+    expect(getCorruptedData()).toBe(unreadable);
+  });
+
+  it("are still reported after a reload", async () => {
+    await openRepository();
+    vi.resetModules();
+    const { getStorageFailure } = await import("./storageFailure");
+    const { getSubjectsFromStorage } = await import("./storageUtils");
+
+    expect(getStorageFailure()).toBe("Saved subjects could not be read");
+    // No default subjects are seeded over the unreadable ones
+    expect(await getSubjectsFromStorage()).toEqual([]);
+  });
+
+  it("are no longer reported once the user starts over", async () => {
+    await openRepository();
+    const { getStorageFailure } = await import("./storageFailure");
+    const { startWithDefaultSubjects } = await import("./storageUtils");
+
+    expect(await startWithDefaultSubjects()).toBe(true);
+    expect(getStorageFailure()).toBeNull();
+    expect(localStorage.getItem("gradeCalculatorStorageFailure")).toBeNull();
+  });
+});
+
+describe("snapshots in localStorage", () => {
+  const createdAt = (day: number) =>
+    `2025-01-${String(day).padStart(2, "0")}T12:00:00.000Z`;
+
+  it("keeps only the newest few", async () => {
+    const { createLocalStorageRepository } = await import("./gradeRepository");
+    const repository = createLocalStorageRepository();
+
+    for (let day = 1; day <= 7; day++) {
+      await repository.saveSnapshot(snapshot(`save-${day}`, createdAt(day)));
+    }
+
+    expect((await repository.listSnapshots()).map((s) => s.id)).toEqual([
+      "save-7",
+      "save-6",
+      "save-5",
+      "save-4",
+      "save-3",
+    ]);
+  });
+
+  it("keeps them within a total size", async () => {
+    const { createLocalStorageRepository } = await import("./gradeRepository");
+    const repository = createLocalStorageRepository();
+    const data = "x".repeat(400000);
+
+    for (let day = 1; day <= 3; day++) {
+      await repository.saveSnapshot(
+        snapshot(`save-${day}`, createdAt(day), data)
+      );
+    }
+
+    expect((await repository.listSnapshots()).map((s) => s.id)).toEqual([
+      "save-3",
+      "save-2",
+    ]);
+  });
+
+  it("move into IndexedDB once it is available", async () => {
+    const { createLocalStorageRepository } = await import("./gradeRepository");
+    await createLocalStorageRepository().saveSnapshot(
+      snapshot("save-1", createdAt(1))
+    );
+
+    const repository = await openRepository();
+
+    expect(repository.kind).toBe("indexeddb");
+    expect((await repository.listSnapshots()).map((s) => s.id)).toEqual([
+      "save-1",
+    ]);
+    expect(localStorage.getItem("gradeCalculatorSnapshots")).toBe("[]");
+  });
+});
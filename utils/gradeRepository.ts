@@ -0,0 +1,344 @@
+import type { Subject } from "../types/grades";
+import type {
+  GradeRepository,
+  Snapshot,
+  SnapshotInfo,
+} from "../types/repository";
+import { createIndexedDbRepository } from "./indexedDbRepository";
+import { canonicalJson } from "./mergeUtils";
+import { runMigrations } from "./migrations";
+import { reportStorageFailure } from "./storageFailure";
+
+// Key of the JSON blob used before subjects moved to IndexedDB
+const STORAGE_KEY = "gradeCalculator";
+const SCHEMA_VERSION_KEY = "gradeCalculatorSchemaVersion";
+const SNAPSHOTS_KEY = "gradeCalculatorSnapshots";
+// Unreadable data is moved here instead of being overwritten
+const CORRUPTED_KEY = "gradeCalculatorCorrupted";
+// Cookie that held all subjects in the first versions of the app
+const COOKIE_NAME = "gradeCalculator";
+// Snapshots share the few megabytes of localStorage with the subjects, so
+// only the newest are kept there, up to a total size in characters
+const MAX_LOCAL_SNAPSHOTS = 5;
+const MAX_LOCAL_SNAPSHOTS_SIZE = 1000000;
+
+const copy = (subjects: Subject[]): Subject[] =>
+  JSON.parse(JSON.stringify(subjects));
+
+const toSnapshotInfo = ({ data, ...info }: Snapshot): SnapshotInfo => info;
+
+const newestFirst = (a: SnapshotInfo, b: SnapshotInfo) =>
+  b.createdAt.localeCompare(a.createdAt);
+
+// All subjects as one JSON string, for browsers without IndexedDB
+export function createLocalStorageRepository(): GradeRepository {
+  const read = (): Subject[] => {
+    const subjectsJson = localStorage.getItem(STORAGE_KEY);
+    if (!subjectsJson) return [];
+    try {
+      const subjects = JSON.parse(subjectsJson);
+      return Array.isArray(subjects) ? subjects : [];
+    } catch (error) {
+      console.error("Error parsing subjects JSON:", error);
+      try {
+        localStorage.setItem(CORRUPTED_KEY, subjectsJson);
+      } catch (copyError) {
+        // The data stays where it is, see migrateLocalStorage
+        console.error("Error copying unreadable subjects:", copyError);
+      }
+      throw new Error("Saved subjects could not be read");
+    }
+  };
+
+  const readSnapshots = (): Snapshot[] => {
+    try {
+      const snapshots = JSON.parse(localStorage.getItem(SNAPSHOTS_KEY) || "[]");
+      return Array.isArray(snapshots) ? snapshots : [];
+    } catch (error) {
+      console.error("Error parsing snapshots JSON:", error);
+      return [];
+    }
+  };
+
+  const writeSnapshots = (snapshots: Snapshot[]) =>
+    localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+
+  // Drop the oldest snapshots beyond the limits
+  const limitSnapshots = (snapshots: Snapshot[]): Snapshot[] => {
+    let size = 0;
+    return [...snapshots].sort(newestFirst).filter((snapshot, index) => {
+      size += snapshot.data.length;
+      return index < MAX_LOCAL_SNAPSHOTS && size <= MAX_LOCAL_SNAPSHOTS_SIZE;
+    });
+  };
+
+  return {
+    kind: "localstorage",
+    getSubjects: async () => read(),
+    getSubject: async (id) => read().find((subject) => subject.id === id),
+    saveSubjects: async (subjects) => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(subjects));
+    },
+    getSchemaVersion: async () =>
+      Number(localStorage.getItem(SCHEMA_VERSION_KEY)) || 0,
+    saveSchemaVersion: async (version) => {
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    },
+    listSnapshots: async () =>
+      readSnapshots().map(toSnapshotInfo).sort(newestFirst),
+    getSnapshot: async (id) =>
+      readSnapshots().find((snapshot) => snapshot.id === id),
+    saveSnapshot: async (snapshot) => {
+      writeSnapshots(
+        limitSnapshots([
+          ...readSnapshots().filter((s) => s.id !== snapshot.id),
+          snapshot,
+        ])
+      );
+    },
+    deleteSnapshots: async (ids) => {
+      writeSnapshots(readSnapshots().filter((s) => !ids.includes(s.id)));
+    },
+    clear: async () => {
+      localStorage.removeItem(STORAGE_KEY);
+      localStorage.removeItem(SCHEMA_VERSION_KEY);
+    },
+  };
+}
+
+// Keeps subjects for the lifetime of the page only, e.g. during server
+// rendering
+export function createMemoryRepository(
+  initialSubjects: Subject[] = []
+): GradeRepository {
+  let stored = copy(initialSubjects);
+  let schemaVersion = 0;
+  let snapshots: Snapshot[] = [];
+
+  return {
+    kind: "memory",
+    getSubjects: async () => copy(stored),
+    getSubject: async (id) =>
+      copy(stored).find((subject) => subject.id === id),
+    saveSubjects: async (subjects) => {
+      stored = copy(subjects);
+    },
+    getSchemaVersion: async () => schemaVersion,
+    saveSchemaVersion: async (version) => {
+      schemaVersion = version;
+    },
+    listSnapshots: async () => snapshots.map(toSnapshotInfo).sort(newestFirst),
+    getSnapshot: async (id) => snapshots.find((snapshot) => snapshot.id === id),
+    saveSnapshot: async (snapshot) => {
+      snapshots = [...snapshots.filter((s) => s.id !== snapshot.id), snapshot];
+    },
+    deleteSnapshots: async (ids) => {
+      snapshots = snapshots.filter((snapshot) => !ids.includes(snapshot.id));
+    },
+    clear: async () => {
+      stored = [];
+      schemaVersion = 0;
+    },
+  };
+}
+
+// Save subjects brought over from an older store and read them back, so
+// the old copy is only removed once they are really stored. Grades saved
+// before ids existed cannot be keyed in IndexedDB, so the migrations run
+// first. They leave current data unchanged, so the version stays as it was
+// and they run again along with the average recalculation.
+async function importSubjects(
+  repository: GradeRepository,
+  subjects: Subject[],
+  version: number
+) {
+  const migrated = runMigrations(subjects, version);
+  await repository.saveSubjects(migrated);
+  const saved = await repository.getSubjects();
+  if (canonicalJson(saved) !== canonicalJson(migrated)) {
+    await repository.clear();
+    throw new Error("Imported subjects could not be read back");
+  }
+  await repository.saveSchemaVersion(version);
+}
+
+// Keep subjects that are not imported restorable from the backup list
+async function saveImportSnapshot(
+  repository: GradeRepository,
+  subjects: Subject[]
+) {
+  const now = new Date();
+  await repository.saveSnapshot({
+    id: `save-${now.getTime()}`,
+    kind: "save",
+    createdAt: now.toISOString(),
+    subjectCount: subjects.length,
+    gradeCount: subjects.reduce(
+      (sum, subject) => sum + (subject.grades?.length ?? 0),
+      0
+    ),
+    data: JSON.stringify(subjects),
+  });
+}
+
+// Move subjects saved by earlier versions out of localStorage. Their
+// schema version comes along, so pending migrations still run. Errors
+// leave the localStorage copy in place and are passed on, so the page
+// keeps using it.
+async function migrateLocalStorage(repository: GradeRepository) {
+  const legacy = createLocalStorageRepository();
+  let subjects: Subject[];
+  try {
+    subjects = await legacy.getSubjects();
+  } catch (error: any) {
+    // There is nothing to move. The unreadable data is only removed once
+    // a copy of it has been kept.
+    console.error("Error moving subjects out of localStorage:", error);
+    const kept = localStorage.getItem(CORRUPTED_KEY);
+    if (kept !== null && kept === localStorage.getItem(STORAGE_KEY)) {
+      await legacy.clear();
+    }
+    reportStorageFailure(error?.message || String(error));
+    return;
+  }
+  if (subjects.length === 0) return;
+
+  const existing = await repository.getSubjects();
+  if (existing.length === 0) {
+    await importSubjects(repository, subjects, await legacy.getSchemaVersion());
+  } else {
+    // Left behind while IndexedDB was unavailable for a while
+    await saveImportSnapshot(repository, subjects);
+  }
+  await legacy.clear();
+}
+
+// Move snapshots taken while IndexedDB was unavailable, so they can still
+// be restored. A snapshot of the same day that is already there and newer
+// is kept instead.
+async function migrateLocalSnapshots(repository: GradeRepository) {
+  const legacy = createLocalStorageRepository();
+  const snapshots = await legacy.listSnapshots();
+  if (snapshots.length === 0) return;
+
+  for (const info of snapshots) {
+    const [snapshot, existing] = await Promise.all([
+      legacy.getSnapshot(info.id),
+      repository.getSnapshot(info.id),
+    ]);
+    if (snapshot && !(existing && existing.createdAt >= snapshot.createdAt)) {
+      await repository.saveSnapshot(snapshot);
+    }
+  }
+  await legacy.deleteSnapshots(snapshots.map((snapshot) => snapshot.id));
+}
+
+// Import subjects from the cookie used by the first versions of the app,
+// once. The cookie is removed once its subjects are stored; errors while
+// storing them keep it and are passed on.
+async function importCookieData(repository: GradeRepository) {
+  const cookie = document.cookie
+    .split("; ")
+    .find((entry) => entry.startsWith(`${COOKIE_NAME}=`));
+  if (!cookie) return;
+
+  let subjects: unknown;
+  try {
+    subjects = JSON.parse(
+      decodeURIComponent(cookie.slice(COOKIE_NAME.length + 1))
+    );
+  } catch (error) {
+    // Unreadable cookies hold nothing worth keeping
+    console.error("Error reading subjects from cookies:", error);
+    subjects = null;
+  }
+
+  if (Array.isArray(subjects) && subjects.length > 0) {
+    const existing = await repository.getSubjects();
+    if (existing.length === 0) {
+      await importSubjects(repository, subjects, 0);
+    } else {
+      await saveImportSnapshot(repository, subjects);
+    }
+  }
+  document.cookie = `${COOKIE_NAME}=; path=/; max-age=0`;
+}
+
+// Subjects left in localStorage that cannot be parsed
+const getUnreadableLegacyData = (): string | null => {
+  const subjectsJson = localStorage.getItem(STORAGE_KEY);
+  if (!subjectsJson) return null;
+  try {
+    JSON.parse(subjectsJson);
+    return null;
+  } catch (error) {
+    return subjectsJson;
+  }
+};
+
+// Saved subjects that could not be parsed, as they were stored. Taken from
+// where they were saved if no copy could be kept.
+export function getCorruptedData(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem(CORRUPTED_KEY) ?? getUnreadableLegacyData();
+  } catch (error) {
+    console.error("Error reading corrupted subjects:", error);
+    return null;
+  }
+}
+
+// Remove unreadable subjects left in localStorage once the user has
+// restored a backup or started over, so they are not reported again
+export function discardUnreadableData(): void {
+  try {
+    if (getUnreadableLegacyData() !== null) {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error("Error removing unreadable subjects:", error);
+  }
+}
+
+async function openRepository(): Promise<GradeRepository> {
+  if (typeof window === "undefined") {
+    return createMemoryRepository();
+  }
+
+  if (typeof indexedDB !== "undefined") {
+    try {
+      const repository = await createIndexedDbRepository();
+      await migrateLocalStorage(repository);
+      await migrateLocalSnapshots(repository);
+      await importCookieData(repository);
+      return repository;
+    } catch (error) {
+      // Some private browsing modes refuse to open a database
+      console.error("IndexedDB unavailable, using localStorage:", error);
+    }
+  }
+
+  const repository = createLocalStorageRepository();
+  try {
+    await importCookieData(repository);
+  } catch (error) {
+    // The cookie is kept, so the import is tried again on the next load
+    console.error("Error importing subjects from cookies:", error);
+  }
+  return repository;
+}
+
+let repository: Promise<GradeRepository> | null = null;
+
+// IndexedDB where available, localStorage otherwise
+export function getGradeRepository(): Promise<GradeRepository> {
+  if (!repository) {
+    repository = openRepository();
+  }
+  return repository;
+}
+
+// Replace the repository, e.g. with an in-memory one
+export function setGradeRepository(next: GradeRepository): void {
+  repository = Promise.resolve(next);
+}
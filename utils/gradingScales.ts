@@ -0,0 +1,388 @@
+import type { Grade, GradingScaleId, Subject } from "../types/grades";
+
+export interface ColorBand {
+  limit: number; // Values at least as good as this limit get the colour
+  className: string;
+}
+
+export interface ReferenceLine {
+  value: number;
+  tone: "success" | "warning" | "destructive";
+}
+
+export interface GradingScale {
+  id: GradingScaleId;
+  name: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number; // Smallest increment a single grade can be entered in
+  values?: number[]; // Allowed values for scales with discrete grades
+  higherIsBetter: boolean;
+  supportsTendency?: boolean; // Accepts notation like "2-", "1+" or "2-3"
+  passThreshold: number; // Worst value that still passes
+  averageStep: number; // Averages are rounded to the nearest multiple
+  // Conversion through the German 1–6 scale
+  toGerman: (value: number) => number;
+  fromGerman: (value: number) => number;
+  parse: (input: string) => number | null;
+  format: (value: number) => string;
+  formatAverage: (value: number) => string;
+  colorBands: ColorBand[]; // Ordered from best to worst
+  fallbackColor: string;
+  referenceLines: ReferenceLine[];
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Round to the nearest multiple of step without floating point noise
+export function roundToStep(value: number, step: number): number {
+  const decimals = (String(step).split(".")[1] || "").length;
+  return Number.parseFloat((Math.round(value / step) * step).toFixed(decimals));
+}
+
+// Piecewise linear mapping through [value, germanGrade] anchor points
+function interpolate(anchors: [number, number][]) {
+  const sorted = [...anchors].sort((a, b) => a[0] - b[0]);
+  return (value: number) => {
+    if (value <= sorted[0][0]) return sorted[0][1];
+    for (let i = 1; i < sorted.length; i++) {
+      const [x1, y1] = sorted[i];
+      if (value <= x1) {
+        const [x0, y0] = sorted[i - 1];
+        return y0 + ((value - x0) / (x1 - x0)) * (y1 - y0);
+      }
+    }
+    return sorted[sorted.length - 1][1];
+  };
+}
+
+// Parse plain numbers, accepting a decimal comma. Trailing characters are
+// rejected so "2-" is not silently read as 2.
+export function parseGradeValue(input: string): number | null {
+  const trimmed = input.trim().replace(",", ".");
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return isNaN(value) ? null : value;
+}
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : String(roundToStep(value, 0.01));
+
+type ScaleDefinition = Omit<
+  GradingScale,
+  | "toGerman"
+  | "fromGerman"
+  | "parse"
+  | "format"
+  | "formatAverage"
+  | "colorBands"
+  | "fallbackColor"
+  | "referenceLines"
+> &
+  Partial<GradingScale> & { anchors?: [number, number][] };
+
+// Build a scale, deriving conversions, colours and reference lines from the
+// German thresholds (1.5 very good, 2.5 good, 3.5 satisfactory) where not given
+function createScale(definition: ScaleDefinition): GradingScale {
+  const { anchors, ...rest } = definition;
+  const toGerman =
+    definition.toGerman ?? (anchors ? interpolate(anchors) : (v: number) => v);
+  const fromGerman =
+    definition.fromGerman ??
+    (anchors
+      ? interpolate(anchors.map(([value, german]) => [german, value]))
+      : (v: number) => v);
+  const averageDecimals = (String(definition.averageStep).split(".")[1] || "")
+    .length;
+
+  return {
+    ...rest,
+    toGerman,
+    fromGerman,
+    parse: definition.parse ?? parseGradeValue,
+    format: definition.format ?? formatNumber,
+    formatAverage:
+      definition.formatAverage ?? ((value) => value.toFixed(averageDecimals)),
+    colorBands: definition.colorBands ?? [
+      { limit: fromGerman(1.5), className: "bg-green-500" },
+      { limit: fromGerman(2.5), className: "bg-yellow-500" },
+      { limit: fromGerman(3.5), className: "bg-orange-500" },
+    ],
+    fallbackColor: definition.fallbackColor ?? "bg-red-500",
+    referenceLines: definition.referenceLines ?? [
+      { value: fromGerman(1.5), tone: "success" },
+      { value: fromGerman(3.5), tone: "warning" },
+      { value: definition.passThreshold, tone: "destructive" },
+    ],
+  };
+}
+
+export const GERMAN_SCALE: GradingScale = createScale({
+  id: "german",
+  name: "German grades (1–6)",
+  description: "1 is best, 6 is worst",
+  min: 1,
+  max: 6,
+  step: 1,
+  higherIsBetter: false,
+  supportsTendency: true,
+  passThreshold: 4,
+  averageStep: 0.01,
+  referenceLines: [
+    { value: 1.5, tone: "success" },
+    { value: 3.5, tone: "warning" },
+    { value: 4.5, tone: "destructive" },
+  ],
+});
+
+// Oberstufe points: 15 = 1+, 5 = 4 (pass), 0 = 6. Uses the KMK conversion
+// grade = (17 - points) / 3, with 0 points mapped to 6.
+export const PUNKTE_SCALE: GradingScale = createScale({
+  id: "punkte",
+  name: "Points (0–15)",
+  description: "15 is best, 0 is worst, 5 points are needed to pass",
+  min: 0,
+  max: 15,
+  step: 1,
+  higherIsBetter: true,
+  passThreshold: 5,
+  averageStep: 0.01,
+  toGerman: (points) => (points <= 0 ? 6 : clamp((17 - points) / 3, 1, 6)),
+  fromGerman: (grade) => (grade >= 6 ? 0 : clamp(17 - 3 * grade, 0, 15)),
+  colorBands: [
+    { limit: 12.5, className: "bg-green-500" },
+    { limit: 9.5, className: "bg-yellow-500" },
+    { limit: 6.5, className: "bg-orange-500" },
+  ],
+  referenceLines: [
+    { value: 12.5, tone: "success" },
+    { value: 6.5, tone: "warning" },
+    { value: 4.5, tone: "destructive" },
+  ],
+});
+
+// Percentages with the common IHK grade boundaries (92% = 1, 50% = 4)
+export const PERCENT_SCALE: GradingScale = createScale({
+  id: "percent",
+  name: "Percentage (0–100%)",
+  description: "100% is best, 50% is needed to pass",
+  min: 0,
+  max: 100,
+  step: 0.5,
+  higherIsBetter: true,
+  passThreshold: 50,
+  averageStep: 0.1,
+  anchors: [
+    [0, 6],
+    [30, 5.5],
+    [50, 4.5],
+    [67, 3.5],
+    [81, 2.5],
+    [92, 1.5],
+    [100, 1],
+  ],
+  parse: (input) => parseGradeValue(input.replace("%", "")),
+  format: (value) => `${formatNumber(value)}%`,
+  formatAverage: (value) => `${value.toFixed(1)}%`,
+});
+
+// US letter grades, stored as grade points on the 4.0 GPA scale
+const LETTER_GRADES: [string, number][] = [
+  ["A+", 4.0],
+  ["A", 4.0],
+  ["A-", 3.7],
+  ["B+", 3.3],
+  ["B", 3.0],
+  ["B-", 2.7],
+  ["C+", 2.3],
+  ["C", 2.0],
+  ["C-", 1.7],
+  ["D+", 1.3],
+  ["D", 1.0],
+  ["D-", 0.7],
+  ["F", 0.0],
+];
+
+// Closest letter for a grade point value; "A+" is only accepted as input
+const toLetter = (points: number) =>
+  LETTER_GRADES.filter(([letter]) => letter !== "A+").reduce((best, entry) =>
+    Math.abs(entry[1] - points) < Math.abs(best[1] - points) ? entry : best
+  )[0];
+
+export const LETTER_SCALE: GradingScale = createScale({
+  id: "letter",
+  name: "US letter grades (A–F, GPA)",
+  description: "A is best, F is failing; averages are shown as GPA",
+  min: 0,
+  max: 4,
+  step: 0.1,
+  values: Array.from(new Set(LETTER_GRADES.map(([, points]) => points))),
+  higherIsBetter: true,
+  passThreshold: 1.0,
+  averageStep: 0.01,
+  anchors: [
+    [0, 6],
+    [1, 4],
+    [2, 3],
+    [3, 2],
+    [4, 1],
+  ],
+  parse: (input) => {
+    const letter = LETTER_GRADES.find(
+      ([l]) => l === input.trim().toUpperCase()
+    );
+    return letter ? letter[1] : parseGradeValue(input);
+  },
+  format: toLetter,
+  formatAverage: (value) => `${value.toFixed(2)} (${toLetter(value)})`,
+});
+
+// Swiss grades: 6 is best, 4 is the pass mark, report grades use half steps
+export const SWISS_SCALE: GradingScale = createScale({
+  id: "swiss",
+  name: "Swiss grades (6–1)",
+  description: "6 is best, 1 is worst, 4 is needed to pass",
+  min: 1,
+  max: 6,
+  step: 0.25,
+  higherIsBetter: true,
+  passThreshold: 4,
+  averageStep: 0.5,
+  anchors: [
+    [1, 6],
+    [3, 5],
+    [4, 4],
+    [5, 2],
+    [6, 1],
+  ],
+});
+
+// Austrian grades: 1 (Sehr gut) to 5 (Nicht genügend), 4 still passes
+export const AUSTRIAN_SCALE: GradingScale = createScale({
+  id: "austrian",
+  name: "Austrian grades (1–5)",
+  description: "1 is best, 5 is failing",
+  min: 1,
+  max: 5,
+  step: 1,
+  higherIsBetter: false,
+  supportsTendency: true,
+  passThreshold: 4,
+  averageStep: 0.01,
+  anchors: [
+    [1, 1],
+    [2, 2],
+    [3, 3],
+    [4, 4],
+    [5, 6],
+  ],
+  referenceLines: [
+    { value: 1.5, tone: "success" },
+    { value: 3.5, tone: "warning" },
+    { value: 4.5, tone: "destructive" },
+  ],
+});
+
+export const GRADING_SCALES: Record<GradingScaleId, GradingScale> = {
+  german: GERMAN_SCALE,
+  punkte: PUNKTE_SCALE,
+  percent: PERCENT_SCALE,
+  letter: LETTER_SCALE,
+  swiss: SWISS_SCALE,
+  austrian: AUSTRIAN_SCALE,
+};
+
+// Look up a scale by id, defaulting to the German 1–6 scale
+export function getGradingScale(id?: string): GradingScale {
+  return GRADING_SCALES[id as GradingScaleId] ?? GERMAN_SCALE;
+}
+
+// The scale a subject is graded in: its own choice or the profile default
+export function getSubjectScale(
+  subject: Pick<Subject, "scale"> | null | undefined,
+  defaultScaleId?: GradingScaleId
+): GradingScale {
+  return getGradingScale(subject?.scale ?? defaultScaleId);
+}
+
+// Whether value a is at least as good as value b on the given scale
+export function isAtLeastAsGood(
+  a: number,
+  b: number,
+  scale: GradingScale
+): boolean {
+  return scale.higherIsBetter ? a >= b : a <= b;
+}
+
+// Whether a grade or average reaches the scale's pass threshold
+export function isPassing(value: number, scale: GradingScale): boolean {
+  return isAtLeastAsGood(value, scale.passThreshold, scale);
+}
+
+// Tailwind background class for a grade or average on the given scale
+export function getGradeColor(value: number, scale: GradingScale): string {
+  const band = scale.colorBands.find((b) =>
+    isAtLeastAsGood(value, b.limit, scale)
+  );
+  return band ? band.className : scale.fallbackColor;
+}
+
+// Apply the scale's rounding rule to an average
+export function roundAverage(value: number, scale: GradingScale): number {
+  return roundToStep(value, scale.averageStep);
+}
+
+// Returns an error message, or null if the value is a valid single grade
+export function validateGradeValue(
+  value: number | null,
+  scale: GradingScale
+): string | null {
+  const range = `between ${scale.format(scale.min)} and ${scale.format(
+    scale.max
+  )}`;
+  if (value === null || value < scale.min || value > scale.max) {
+    return `Please enter a valid grade ${range}`;
+  }
+
+  if (scale.values) {
+    return scale.values.some((v) => Math.abs(v - value) < 1e-9)
+      ? null
+      : `Please enter a valid grade ${range}`;
+  }
+
+  const stepCount = (value - scale.min) / scale.step;
+  if (Math.abs(stepCount - Math.round(stepCount)) > 1e-9) {
+    return `Grades on this scale go in steps of ${scale.step}`;
+  }
+  return null;
+}
+
+// Display a single grade as it was written, e.g. "2-" instead of 2.3
+export function formatGrade(
+  grade: Pick<Grade, "value" | "notation">,
+  scale: GradingScale
+): string {
+  return grade.notation ?? scale.format(grade.value);
+}
+
+// Convert a value from one scale to another, rounded to two decimals
+export function convertGrade(
+  value: number,
+  from: GradingScale,
+  to: GradingScale
+): number {
+  if (from.id === to.id) return value;
+  const converted = clamp(to.fromGerman(from.toGerman(value)), to.min, to.max);
+  return Number.parseFloat(converted.toFixed(2));
+}
+
+// Short label for chart descriptions, e.g. "Up = Good (1), Down = Poor (6)"
+export function getScaleDirectionLabel(scale: GradingScale): string {
+  const best = scale.higherIsBetter ? scale.max : scale.min;
+  const worst = scale.higherIsBetter ? scale.min : scale.max;
+  return `Up = Good (${scale.format(best)}), Down = Poor (${scale.format(
+    worst
+  )})`;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import type { Grade, Subject } from "../types/grades";
+import type { HistoryEntry } from "../types/history";
+import { applyHistoryEntry } from "./historyUtils";
+
+const grade = (id: string, value: number): Grade => ({
+  id,
+  value,
+  type: "Test",
+  date: "2025-01-15",
+  weight: 2,
+});
+
+const math = (grades: Grade[], overrides: Partial<Subject> = {}): Subject => ({
+  id: "math",
+  name: "Mathematics",
+  grades,
+  ...overrides,
+});
+
+const entry = (before?: Subject, after?: Subject): HistoryEntry => ({
+  label: "Grade deleted",
+  changes: [{ id: "math", before, after }],
+  orderBefore: ["math"],
+  orderAfter: ["math"],
+});
+
+describe("applyHistoryEntry", () => {
+  // The edit deleted g1, then g3 was merged in from another device
+  const deleted = entry(
+    math([grade("g1", 2), grade("g2", 3)]),
+    math([grade("g2", 3)])
+  );
+  const current = [math([grade("g2", 3), grade("g3", 1)])];
+
+  it("keeps grades added since when undoing", () => {
+    const [subject] = applyHistoryEntry(current, deleted, "undo");
+
+    expect(subject.grades.map((g) => g.id)).toEqual(["g1", "g2", "g3"]);
+  });
+
+  it("keeps grades added since when redoing", () => {
+    const undone = applyHistoryEntry(current, deleted, "undo");
+    const [subject] = applyHistoryEntry(undone, deleted, "redo");
+
+    expect(subject.grades.map((g) => g.id)).toEqual(["g2", "g3"]);
+  });
+
+  it("reverts only the grades and fields the edit changed", () => {
+    const edited = entry(
+      math([grade("g1", 2)], { name: "Maths" }),
+      math([grade("g1", 4)], { name: "Mathematics" })
+    );
+    const changedSince = [
+      math([grade("g1", 4), grade("g2", 1)], { creditWeight: 2 }),
+    ];
+
+    const [subject] = applyHistoryEntry(changedSince, edited, "undo");
+
+    expect(subject).toEqual(
+      math([grade("g1", 2), grade("g2", 1)], {
+        name: "Maths",
+        creditWeight: 2,
+      })
+    );
+  });
+
+  it("adds and removes whole subjects", () => {
+    const added = entry(undefined, math([grade("g1", 2)]));
+
+    expect(applyHistoryEntry(current, added, "undo")).toEqual([]);
+    expect(applyHistoryEntry([], added, "redo")).toEqual([
+      math([grade("g1", 2)]),
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import type { Grade, Subject } from "../types/grades";
+import type {
+  HistoryAction,
+  HistoryDirection,
+  HistoryEntry,
+  SubjectChange,
+} from "../types/history";
+import { canonicalJson } from "./mergeUtils";
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+// Kept for the page lifetime only
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+
+// Notify other components that an edit was recorded, undone or redone
+function notifyHistoryUpdated(
+  action: HistoryAction,
+  entry?: HistoryEntry
+): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(
+      new CustomEvent("historyUpdated", { detail: { action, entry } })
+    );
+  }
+}
+
+// Record an edit from the saved subjects before and after it. Edits that
+// did not change anything are ignored.
+export function recordHistory(
+  label: string,
+  before: Subject[],
+  after: Subject[]
+): void {
+  const beforeById = new Map(before.map((subject) => [subject.id, subject]));
+  const afterById = new Map(after.map((subject) => [subject.id, subject]));
+  const ids = new Set([...beforeById.keys(), ...afterById.keys()]);
+
+  const changes: SubjectChange[] = [];
+  for (const id of ids) {
+    const previous = beforeById.get(id);
+    const next = afterById.get(id);
+    if (
+      !previous ||
+      !next ||
+      canonicalJson(previous) !== canonicalJson(next)
+    ) {
+      changes.push({ id, before: previous, after: next });
+    }
+  }
+
+  const orderBefore = before.map((subject) => subject.id);
+  const orderAfter = after.map((subject) => subject.id);
+  if (changes.length === 0 && orderBefore.join() === orderAfter.join()) {
+    return;
+  }
+
+  const entry: HistoryEntry = { label, changes, orderBefore, orderAfter };
+  undoStack = [...undoStack, entry].slice(-MAX_HISTORY_ENTRIES);
+  redoStack = [];
+  notifyHistoryUpdated("record", entry);
+}
+
+export function canUndo(): boolean {
+  return undoStack.length > 0;
+}
+
+export function canRedo(): boolean {
+  return redoStack.length > 0;
+}
+
+// Remove the next entry to undo or redo while it is applied. Hand it back
+// with completeHistoryEntry, whether applying it worked or not.
+export function takeHistoryEntry(
+  direction: HistoryDirection
+): HistoryEntry | undefined {
+  const stack = direction === "undo" ? undoStack : redoStack;
+  const entry = stack[stack.length - 1];
+  if (!entry) return undefined;
+
+  if (direction === "undo") {
+    undoStack = undoStack.slice(0, -1);
+  } else {
+    redoStack = redoStack.slice(0, -1);
+  }
+  return entry;
+}
+
+export function completeHistoryEntry(
+  direction: HistoryDirection,
+  entry: HistoryEntry,
+  success: boolean
+): void {
+  // An entry that could not be applied goes back where it came from
+  const undone = direction === "undo" ? success : !success;
+  if (undone) {
+    redoStack = [...redoStack, entry];
+  } else {
+    undoStack = [...undoStack, entry];
+  }
+  if (success) {
+    notifyHistoryUpdated(direction, entry);
+  }
+}
+
+// Fields that follow from others and are worked out again after a change
+const DERIVED_FIELDS = ["grades", "averageGrade", "updatedAt"];
+
+// Grades with the difference between two states applied: grades the step
+// adds come back at their old place, grades it removes go, and grades it
+// changes take their target state. Other grades are left as they are.
+function applyGradeDiff(current: Grade[], from: Grade[], to: Grade[]): Grade[] {
+  const fromById = new Map(from.map((grade) => [grade.id, grade]));
+  const toById = new Map(to.map((grade) => [grade.id, grade]));
+
+  const grades = current
+    .filter((grade) => toById.has(grade.id) || !fromById.has(grade.id))
+    .map((grade) => {
+      const source = fromById.get(grade.id);
+      const target = toById.get(grade.id);
+      return source && target && canonicalJson(source) !== canonicalJson(target)
+        ? target
+        : grade;
+    });
+
+  to.forEach((grade, index) => {
+    if (!fromById.has(grade.id) && !grades.some((g) => g.id === grade.id)) {
+      grades.splice(Math.min(index, grades.length), 0, grade);
+    }
+  });
+  return grades;
+}
+
+// A subject with the difference between two of its states applied, so
+// fields and grades changed since, e.g. merged from another device, stay
+function applySubjectDiff(current: Subject, from: Subject, to: Subject) {
+  const fields: Record<string, unknown> = { ...current };
+  const source: Record<string, unknown> = { ...from };
+  const target: Record<string, unknown> = { ...to };
+
+  const keys = new Set([...Object.keys(source), ...Object.keys(target)]);
+  for (const key of keys) {
+    if (DERIVED_FIELDS.includes(key)) continue;
+    if (canonicalJson(source[key]) === canonicalJson(target[key])) continue;
+    if (target[key] === undefined) {
+      delete fields[key];
+    } else {
+      fields[key] = target[key];
+    }
+  }
+
+  return {
+    ...(fields as Omit<Subject, "grades">),
+    grades: applyGradeDiff(current.grades, from.grades, to.grades),
+  };
+}
+
+// Subjects with the changes of an entry reverted (undo) or reapplied (redo).
+// Only the fields and grades the entry changed are touched; averages of the
+// subjects it touched need to be worked out again.
+export function applyHistoryEntry(
+  subjects: Subject[],
+  entry: HistoryEntry,
+  direction: HistoryDirection
+): Subject[] {
+  const byId = new Map(subjects.map((subject) => [subject.id, subject]));
+  for (const change of entry.changes) {
+    const from = direction === "undo" ? change.after : change.before;
+    const to = direction === "undo" ? change.before : change.after;
+    const current = byId.get(change.id);
+    if (!to) {
+      byId.delete(change.id);
+    } else if (current && from) {
+      byId.set(change.id, applySubjectDiff(current, from, to));
+    } else {
+      byId.set(change.id, to);
+    }
+  }
+
+  const order = direction === "undo" ? entry.orderBefore : entry.orderAfter;
+  const ordered = order
+    .map((id) => byId.get(id))
+    .filter((subject): subject is Subject => subject !== undefined);
+  // Subjects added since the edit keep their place at the end
+  const remaining = subjects.filter(
+    (subject) => !order.includes(subject.id) && byId.has(subject.id)
+  );
+  return [...ordered, ...remaining];
+}
+
+// Forget all edits, e.g. after everything was replaced by a restore
+export function clearHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  notifyHistoryUpdated("clear");
+}
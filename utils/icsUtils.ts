@@ -0,0 +1,87 @@
+import type { UpcomingAssessment } from "../types/assessments";
+import type { Subject } from "../types/grades";
+
+const PRODUCT_ID = "-//German Grade Calculator//Assessments//EN";
+
+// Escape text values as required by RFC 5545
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Umlauts take two octets, so characters are measured in UTF-8.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > 74) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const toIcsDate = (date: string) => date.replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().split("T")[0];
+};
+
+// An iCalendar file with one all-day event per assessment. Events keep their
+// uid, so importing the file again updates them instead of adding copies.
+export function assessmentsToIcs(
+  assessments: UpcomingAssessment[],
+  subjects: Subject[]
+): string {
+  const timestamp = new Date()
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+  const events = assessments.flatMap((assessment) => {
+    const subjectName =
+      subjects.find((subject) => subject.id === assessment.subjectId)?.name ??
+      "Unknown subject";
+    const description = [
+      assessment.topic,
+      `Weight: ${assessment.weight}x`,
+    ].filter(Boolean);
+
+    return [
+      "BEGIN:VEVENT",
+      `UID:${assessment.id}@german-grade-calculator`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART;VALUE=DATE:${toIcsDate(assessment.date)}`,
+      `DTEND;VALUE=DATE:${toIcsDate(nextDay(assessment.date))}`,
+      `SUMMARY:${escapeText(`${subjectName}: ${assessment.type}`)}`,
+      `DESCRIPTION:${escapeText(description.join("\n"))}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    ];
+  });
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "X-WR-CALNAME:Assessments",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldLine)
+    .join("\r\n");
+}
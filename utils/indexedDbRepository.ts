@@ -0,0 +1,266 @@
+import type { Grade, Subject } from "../types/grades";
+import type {
+  GradeRepository,
+  Snapshot,
+  SnapshotInfo,
+} from "../types/repository";
+import { canonicalJson } from "./mergeUtils";
+
+const DB_NAME = "gradeCalculator";
+const DB_VERSION = 3;
+const SUBJECTS_STORE = "subjects";
+const GRADES_STORE = "grades";
+const META_STORE = "meta";
+const SNAPSHOTS_STORE = "snapshots";
+const SCHEMA_VERSION_KEY = "schemaVersion";
+
+// Subjects are stored without their grades, which get a record each
+type SubjectRecord = Omit<Subject, "grades"> & { position: number };
+type GradeRecord = Grade & { subjectId: string; position: number };
+
+const toSubjectRecord = (
+  { grades, ...subject }: Subject,
+  position: number
+): SubjectRecord => ({ ...subject, position });
+
+const toGradeRecord = (
+  subjectId: string,
+  grade: Grade,
+  position: number
+): GradeRecord => ({ ...grade, subjectId, position });
+
+const gradeKey = (record: GradeRecord) => `${record.subjectId}/${record.id}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(SUBJECTS_STORE, { keyPath: "id" });
+        // Grade ids are unique per subject, so the subject is part of the key
+        const grades = db.createObjectStore(GRADES_STORE, {
+          keyPath: ["subjectId", "id"],
+        });
+        grades.createIndex("subjectId", "subjectId");
+        grades.createIndex("date", "date");
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(META_STORE);
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(SNAPSHOTS_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+}
+
+const toSubject = (
+  { position, ...subject }: SubjectRecord,
+  gradeRecords: GradeRecord[]
+): Subject => ({
+  ...subject,
+  grades: gradeRecords
+    .sort((a, b) => a.position - b.position)
+    .map(({ subjectId, position, ...grade }) => grade),
+});
+
+// Subjects with one record per grade, indexed by subject and date, so a
+// long grade history does not have to be parsed as one JSON string
+export async function createIndexedDbRepository(): Promise<GradeRepository> {
+  const db = await openDatabase();
+
+  return {
+    kind: "indexeddb",
+
+    async getSubjects() {
+      const transaction = db.transaction(
+        [SUBJECTS_STORE, GRADES_STORE],
+        "readonly"
+      );
+      const [subjectRecords, gradeRecords] = await Promise.all([
+        requestToPromise<SubjectRecord[]>(
+          transaction.objectStore(SUBJECTS_STORE).getAll()
+        ),
+        requestToPromise<GradeRecord[]>(
+          transaction.objectStore(GRADES_STORE).getAll()
+        ),
+      ]);
+
+      const gradesBySubject = new Map<string, GradeRecord[]>();
+      for (const record of gradeRecords) {
+        const list = gradesBySubject.get(record.subjectId) ?? [];
+        list.push(record);
+        gradesBySubject.set(record.subjectId, list);
+      }
+
+      return subjectRecords
+        .sort((a, b) => a.position - b.position)
+        .map((record) =>
+          toSubject(record, gradesBySubject.get(record.id) ?? [])
+        );
+    },
+
+    async getSubject(id) {
+      const transaction = db.transaction(
+        [SUBJECTS_STORE, GRADES_STORE],
+        "readonly"
+      );
+      const [subjectRecord, gradeRecords] = await Promise.all([
+        requestToPromise<SubjectRecord | undefined>(
+          transaction.objectStore(SUBJECTS_STORE).get(id)
+        ),
+        requestToPromise<GradeRecord[]>(
+          transaction.objectStore(GRADES_STORE).index("subjectId").getAll(id)
+        ),
+      ]);
+      return subjectRecord ? toSubject(subjectRecord, gradeRecords) : undefined;
+    },
+
+    // Only records that changed are written. Nothing is written if any
+    // record is rejected, e.g. a grade without an id.
+    async saveSubjects(subjects) {
+      const transaction = db.transaction(
+        [SUBJECTS_STORE, GRADES_STORE],
+        "readwrite"
+      );
+      const done = transactionDone(transaction);
+      const subjectStore = transaction.objectStore(SUBJECTS_STORE);
+      const gradeStore = transaction.objectStore(GRADES_STORE);
+
+      try {
+        const [storedSubjects, storedGrades] = await Promise.all([
+          requestToPromise<SubjectRecord[]>(subjectStore.getAll()),
+          requestToPromise<GradeRecord[]>(gradeStore.getAll()),
+        ]);
+        const subjectsById = new Map(
+          storedSubjects.map((record) => [record.id, canonicalJson(record)])
+        );
+        const gradesByKey = new Map(
+          storedGrades.map((record) => [
+            gradeKey(record),
+            canonicalJson(record),
+          ])
+        );
+
+        subjects.forEach((subject, position) => {
+          const subjectRecord = toSubjectRecord(subject, position);
+          if (subjectsById.get(subject.id) !== canonicalJson(subjectRecord)) {
+            subjectStore.put(subjectRecord);
+          }
+          subjectsById.delete(subject.id);
+
+          subject.grades.forEach((grade, gradePosition) => {
+            const gradeRecord = toGradeRecord(
+              subject.id,
+              grade,
+              gradePosition
+            );
+            const key = gradeKey(gradeRecord);
+            if (gradesByKey.get(key) !== canonicalJson(gradeRecord)) {
+              gradeStore.put(gradeRecord);
+            }
+            gradesByKey.delete(key);
+          });
+        });
+
+        // Whatever is left was removed
+        for (const id of subjectsById.keys()) {
+          subjectStore.delete(id);
+        }
+        for (const record of storedGrades) {
+          if (gradesByKey.has(gradeKey(record))) {
+            gradeStore.delete([record.subjectId, record.id]);
+          }
+        }
+      } catch (error) {
+        // Requests that succeeded would otherwise commit without the rest
+        try {
+          transaction.abort();
+        } catch (abortError) {
+          // The transaction has already ended, e.g. aborted by the browser
+        }
+        done.catch(() => undefined);
+        throw error;
+      }
+
+      await done;
+    },
+
+    async getSchemaVersion() {
+      const transaction = db.transaction(META_STORE, "readonly");
+      const version = await requestToPromise<number | undefined>(
+        transaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)
+      );
+      return version ?? 0;
+    },
+
+    async saveSchemaVersion(version) {
+      const transaction = db.transaction(META_STORE, "readwrite");
+      const done = transactionDone(transaction);
+      transaction.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY);
+      await done;
+    },
+
+    async listSnapshots() {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readonly");
+      const snapshots = await requestToPromise<Snapshot[]>(
+        transaction.objectStore(SNAPSHOTS_STORE).getAll()
+      );
+      return snapshots
+        .map(({ data, ...info }): SnapshotInfo => info)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async getSnapshot(id) {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readonly");
+      return requestToPromise<Snapshot | undefined>(
+        transaction.objectStore(SNAPSHOTS_STORE).get(id)
+      );
+    },
+
+    async saveSnapshot(snapshot) {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+      const done = transactionDone(transaction);
+      transaction.objectStore(SNAPSHOTS_STORE).put(snapshot);
+      await done;
+    },
+
+    async deleteSnapshots(ids) {
+      const transaction = db.transaction(SNAPSHOTS_STORE, "readwrite");
+      const done = transactionDone(transaction);
+      const store = transaction.objectStore(SNAPSHOTS_STORE);
+      ids.forEach((id) => store.delete(id));
+      await done;
+    },
+
+    // Snapshots are kept, so a cleared store can still be restored
+    async clear() {
+      const transaction = db.transaction(
+        [SUBJECTS_STORE, GRADES_STORE],
+        "readwrite"
+      );
+      const done = transactionDone(transaction);
+      transaction.objectStore(SUBJECTS_STORE).clear();
+      transaction.objectStore(GRADES_STORE).clear();
+      await done;
+    },
+  };
+}
@@ -0,0 +1,300 @@
+import type { Grade, Subject } from "../types/grades";
+import type {
+  ConflictSide,
+  SubjectFields,
+  SyncConflict,
+} from "../types/sync";
+import { initializeSubjects } from "./storageUtils";
+
+const SYNC_BASE_KEY = "gradeCalculatorSyncBase";
+const CONFLICTS_KEY = "gradeCalculatorConflicts";
+
+// JSON with sorted keys, so records read from the cloud compare equal to
+// local ones regardless of property order
+export const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_key, v) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(
+          Object.entries(v).sort(([a], [b]) => a.localeCompare(b))
+        )
+      : v
+  );
+
+// Content that is edited by the user, without timestamps or derived values
+const subjectContent = ({
+  grades,
+  averageGrade,
+  updatedAt,
+  ...fields
+}: Subject) =>
+  canonicalJson({ ...fields, archived: fields.archived || false });
+
+const gradeContent = ({ updatedAt, ...fields }: Grade) =>
+  canonicalJson(fields);
+
+const subjectFields = ({ grades, ...fields }: Subject): SubjectFields =>
+  fields;
+
+const isNewer = (a?: { updatedAt?: string }, b?: { updatedAt?: string }) =>
+  (a?.updatedAt ?? "") > (b?.updatedAt ?? "");
+
+// Default subjects nobody has renamed or added grades to yet. Every device
+// starts with them, so they say nothing about what the user wants.
+const isUntouchedDefault = (subject: Subject) => {
+  const initial = initializeSubjects().find((s) => s.id === subject.id);
+  return (
+    initial !== undefined &&
+    subject.grades.length === 0 &&
+    subjectContent(subject) === subjectContent(initial)
+  );
+};
+
+// Stamp records whose content changed since the previous save. Only a stamp
+// newer than the saved one is kept, e.g. on versions taken from the cloud;
+// records brought back by undo carry an old one and are stamped again, so
+// they win over the cloud copy.
+export function stampChanges(previous: Subject[], next: Subject[]): Subject[] {
+  const now = new Date().toISOString();
+
+  return next.map((subject) => {
+    const before = previous.find((s) => s.id === subject.id);
+    const grades = subject.grades.map((grade) => {
+      const previousGrade = before?.grades.find((g) => g.id === grade.id);
+      const changed =
+        !previousGrade || gradeContent(previousGrade) !== gradeContent(grade);
+      return changed && !isNewer(grade, previousGrade)
+        ? { ...grade, updatedAt: now }
+        : grade;
+    });
+
+    const changed =
+      !before || subjectContent(before) !== subjectContent(subject);
+    return changed && !isNewer(subject, before)
+      ? { ...subject, grades, updatedAt: now }
+      : { ...subject, grades };
+  });
+}
+
+interface RecordMerge<T> {
+  value: T | undefined; // undefined when the record is deleted
+  conflict?: ConflictSide; // Side kept when both sides changed it
+}
+
+// Three-way merge of a single record against the last synced version
+function mergeRecord<T extends { updatedAt?: string }>(
+  base: T | undefined,
+  local: T | undefined,
+  remote: T | undefined,
+  content: (record: T) => string
+): RecordMerge<T> {
+  const same = (a?: T, b?: T) =>
+    a && b ? content(a) === content(b) : a === b;
+
+  if (same(local, remote)) {
+    return { value: isNewer(local, remote) ? local : remote };
+  }
+  // Only one side changed it since the last sync
+  if (same(local, base)) return { value: remote };
+  if (same(remote, base)) return { value: local };
+
+  // An edit on one side beats a delete on the other
+  if (!local || !remote) return { value: local ?? remote };
+
+  // Both sides changed it: the last writer wins. Without a common version
+  // there is nothing to compare against, so this is not reported.
+  const kept: ConflictSide = isNewer(local, remote) ? "local" : "remote";
+  return {
+    value: kept === "local" ? local : remote,
+    conflict: base ? kept : undefined,
+  };
+}
+
+type IdList = { id: string }[] | null | undefined;
+
+const uniqueIds = (...lists: IdList[]) => [
+  ...new Set(lists.flatMap((list) => (list ?? []).map((item) => item.id))),
+];
+
+export interface MergeResult {
+  subjects: Subject[];
+  conflicts: SyncConflict[];
+}
+
+// Combine local and cloud subjects. Additions from both sides are kept,
+// changes are merged per subject and per grade.
+export function mergeSubjects(
+  userId: string,
+  localSubjects: Subject[],
+  remote: Subject[],
+  base: Subject[] | null
+): MergeResult {
+  // Without a base this device has never synced. Its untouched default
+  // subjects were never edited here, so the cloud decides about them: they
+  // would otherwise beat real edits and bring back deleted subjects.
+  const local =
+    base === null
+      ? localSubjects.filter((subject) => !isUntouchedDefault(subject))
+      : localSubjects;
+  const subjects: Subject[] = [];
+  const conflicts: SyncConflict[] = [];
+  const detectedAt = new Date().toISOString();
+
+  // Follow the local order only if it was changed on this device
+  const localReordered =
+    base !== null &&
+    uniqueIds(local).join() !== uniqueIds(base).join() &&
+    uniqueIds(remote).join() === uniqueIds(base).join();
+  const order = localReordered
+    ? uniqueIds(local, remote, base)
+    : uniqueIds(remote, local, base);
+
+  for (const subjectId of order) {
+    const baseSubject = base?.find((s) => s.id === subjectId);
+    const localSubject = local.find((s) => s.id === subjectId);
+    const remoteSubject = remote.find((s) => s.id === subjectId);
+
+    const grades: Grade[] = [];
+    const gradeIds = uniqueIds(
+      localSubject?.grades,
+      remoteSubject?.grades,
+      baseSubject?.grades
+    );
+    for (const gradeId of gradeIds) {
+      const localGrade = localSubject?.grades.find((g) => g.id === gradeId);
+      const remoteGrade = remoteSubject?.grades.find((g) => g.id === gradeId);
+      const merged = mergeRecord(
+        baseSubject?.grades.find((g) => g.id === gradeId),
+        localGrade,
+        remoteGrade,
+        gradeContent
+      );
+      if (merged.value) grades.push(merged.value);
+      if (merged.conflict && localGrade && remoteGrade) {
+        conflicts.push({
+          id: `grade:${subjectId}/${gradeId}`,
+          userId,
+          subjectId,
+          subjectName: (localSubject ?? remoteSubject)!.name,
+          kept: merged.conflict,
+          detectedAt,
+          kind: "grade",
+          gradeId,
+          local: localGrade,
+          remote: remoteGrade,
+        });
+      }
+    }
+
+    const merged = mergeRecord(
+      baseSubject,
+      localSubject,
+      remoteSubject,
+      subjectContent
+    );
+    // A deleted subject stays while it still has grades added elsewhere
+    const subject =
+      merged.value ??
+      (grades.length > 0 ? localSubject ?? remoteSubject : undefined);
+    if (!subject) continue;
+
+    if (merged.conflict && localSubject && remoteSubject) {
+      conflicts.push({
+        id: `subject:${subjectId}`,
+        userId,
+        subjectId,
+        subjectName: subject.name,
+        kept: merged.conflict,
+        detectedAt,
+        kind: "subject",
+        local: subjectFields(localSubject),
+        remote: subjectFields(remoteSubject),
+      });
+    }
+    subjects.push({ ...subject, grades });
+  }
+
+  return { subjects, conflicts };
+}
+
+// The subjects as they were after the last successful sync of a user
+export function getSyncBase(userId: string): Subject[] | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const baseJson = localStorage.getItem(SYNC_BASE_KEY);
+    const base = baseJson ? JSON.parse(baseJson) : null;
+    return base?.userId === userId && Array.isArray(base.subjects)
+      ? base.subjects
+      : null;
+  } catch (error) {
+    console.error("Error reading sync base from localStorage:", error);
+    return null;
+  }
+}
+
+export function saveSyncBase(userId: string, subjects: Subject[]): boolean {
+  try {
+    localStorage.setItem(SYNC_BASE_KEY, JSON.stringify({ userId, subjects }));
+    return true;
+  } catch (error) {
+    console.error("Error saving sync base to localStorage:", error);
+    return false;
+  }
+}
+
+// Notify other components that sync conflicts were found or resolved
+export function notifyConflictsUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("conflictsUpdated"));
+  }
+}
+
+function readConflicts(): SyncConflict[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const conflictsJson = localStorage.getItem(CONFLICTS_KEY);
+    const conflicts = conflictsJson ? JSON.parse(conflictsJson) : [];
+    return Array.isArray(conflicts) ? conflicts : [];
+  } catch (error) {
+    console.error("Error reading sync conflicts from localStorage:", error);
+    return [];
+  }
+}
+
+function writeConflicts(conflicts: SyncConflict[]): boolean {
+  try {
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+    notifyConflictsUpdated();
+    return true;
+  } catch (error) {
+    console.error("Error saving sync conflicts to localStorage:", error);
+    return false;
+  }
+}
+
+export function getConflicts(userId: string): SyncConflict[] {
+  return readConflicts().filter((conflict) => conflict.userId === userId);
+}
+
+// A conflict found again replaces the earlier one for the same record
+export function addConflicts(conflicts: SyncConflict[]): boolean {
+  if (conflicts.length === 0) return true;
+  const ids = new Set(conflicts.map((c) => `${c.userId}:${c.id}`));
+  return writeConflicts([
+    ...readConflicts().filter((c) => !ids.has(`${c.userId}:${c.id}`)),
+    ...conflicts,
+  ]);
+}
+
+export function removeConflict(conflict: SyncConflict): boolean {
+  return writeConflicts(
+    readConflicts().filter(
+      (c) => !(c.userId === conflict.userId && c.id === conflict.id)
+    )
+  );
+}
@@ -0,0 +1,182 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Grade, Subject } from "../types/grades";
+import {
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  getMigrationBackup,
+  runMigrations,
+  saveMigrationBackup,
+} from "./migrations";
+
+const migration = (version: number) =>
+  MIGRATIONS.find((m) => m.version === version)!;
+
+const grade = (overrides: Partial<Grade> = {}): Grade => ({
+  id: "g1",
+  value: 2,
+  type: "Test",
+  date: "2025-01-15",
+  weight: 2,
+  ...overrides,
+});
+
+// Stored data predating a migration lacks the fields it adds
+const legacy = (subject: object) => subject as Subject;
+
+describe("migrations", () => {
+  it("are numbered in order up to the schema version", () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual([1, 2, 3]);
+    expect(SCHEMA_VERSION).toBe(3);
+  });
+
+  describe("version 1", () => {
+    it("gives subjects without grades an empty grade list", () => {
+      const [subject] = migration(1).migrate([
+        legacy({ id: "math", name: "Mathematics" }),
+      ]);
+      expect(subject.grades).toEqual([]);
+    });
+
+    it("keeps existing grades", () => {
+      const subjects = [{ id: "math", name: "Mathematics", grades: [grade()] }];
+      expect(migration(1).migrate(subjects)).toEqual(subjects);
+    });
+  });
+
+  describe("version 2", () => {
+    it("gives grades without an id a unique one", () => {
+      const [subject] = migration(2).migrate([
+        {
+          id: "math",
+          name: "Mathematics",
+          grades: [grade({ id: undefined }), grade({ id: "" })],
+        },
+      ]);
+      const [first, second] = subject.grades;
+      expect(first.id).toBeTruthy();
+      expect(second.id).toBeTruthy();
+      expect(first.id).not.toBe(second.id);
+    });
+
+    it("keeps existing ids", () => {
+      const subjects = [{ id: "math", name: "Mathematics", grades: [grade()] }];
+      expect(migration(2).migrate(subjects)).toEqual(subjects);
+    });
+  });
+
+  describe("version 3", () => {
+    it("takes missing weights from the default grade types", () => {
+      const [subject] = migration(3).migrate([
+        {
+          id: "math",
+          name: "Mathematics",
+          grades: [
+            grade({ type: "Test", weight: undefined }),
+            grade({ type: "Homework", weight: undefined }),
+            grade({ type: "Unknown", weight: undefined }),
+          ],
+        },
+      ]);
+      expect(subject.grades.map((g) => g.weight)).toEqual([2, 1, 1]);
+    });
+
+    it("takes missing weights from the subject's own grade types", () => {
+      const [subject] = migration(3).migrate([
+        {
+          id: "math",
+          name: "Mathematics",
+          weighting: { gradeTypes: [{ name: "Test", weight: 3 }] },
+          grades: [grade({ type: "Test", weight: undefined })],
+        },
+      ]);
+      expect(subject.grades[0].weight).toBe(3);
+    });
+
+    it("keeps existing weights, including 0", () => {
+      const subjects = [
+        {
+          id: "math",
+          name: "Mathematics",
+          grades: [grade({ weight: 0.5 }), grade({ id: "g2", weight: 0 })],
+        },
+      ];
+      expect(migration(3).migrate(subjects)).toEqual(subjects);
+    });
+  });
+
+  describe("runMigrations", () => {
+    it("brings version 0 data up to date", () => {
+      const [math, english] = runMigrations(
+        [
+          legacy({ id: "math", name: "Mathematics" }),
+          legacy({
+            id: "english",
+            name: "English",
+            grades: [{ value: 1, type: "Test", date: "2025-01-15" }],
+          }),
+        ],
+        0
+      );
+      expect(math.grades).toEqual([]);
+      expect(english.grades[0].id).toBeTruthy();
+      expect(english.grades[0].weight).toBe(2);
+    });
+
+    it("runs only the migrations newer than the given version", () => {
+      const subjects = [
+        {
+          id: "math",
+          name: "Mathematics",
+          grades: [grade({ id: "", weight: undefined })],
+        },
+      ];
+      const [subject] = runMigrations(subjects, 2);
+      expect(subject.grades[0].id).toBe("");
+      expect(subject.grades[0].weight).toBe(2);
+    });
+
+    it("leaves current data unchanged", () => {
+      const subjects = [{ id: "math", name: "Mathematics", grades: [grade()] }];
+      expect(runMigrations(subjects, 0)).toEqual(subjects);
+      expect(runMigrations(subjects, SCHEMA_VERSION)).toBe(subjects);
+    });
+
+    it("names the migration that failed", () => {
+      expect(() =>
+        runMigrations([legacy({ id: "math", name: "Mathematics" })], 1)
+      ).toThrow(/^Migration to version 2 \(Every grade has an id\) failed: /);
+    });
+  });
+});
+
+describe("migration backup", () => {
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps the data, its version and the error", () => {
+    const subjects = [legacy({ id: "math", name: "Mathematics" })];
+    expect(saveMigrationBackup(subjects, 1, "Migration failed")).toBe(true);
+
+    expect(getMigrationBackup()).toEqual({
+      version: 1,
+      createdAt: expect.any(String),
+      error: "Migration failed",
+      subjects,
+    });
+  });
+
+  it("is null until a migration has failed", () => {
+    expect(getMigrationBackup()).toBeNull();
+  });
+
+  it("reports when the backup cannot be saved", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("Quota exceeded");
+    });
+
+    expect(saveMigrationBackup([], 0, "Migration failed")).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Subject } from "../types/grades";
+import { generateId, getTypeWeight } from "./storageUtils";
+
+const BACKUP_KEY = "gradeCalculatorMigrationBackup";
+
+// A single step from one schema version to the next. Migrations are pure and
+// must leave data that is already up to date unchanged, since cloud data
+// carries no version and always runs through all of them.
+export interface Migration {
+  version: number; // Schema version after this migration
+  description: string;
+  migrate: (subjects: Subject[]) => Subject[];
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Every subject has a grade list",
+    migrate: (subjects) =>
+      subjects.map((subject) => ({ ...subject, grades: subject.grades || [] })),
+  },
+  {
+    version: 2,
+    description: "Every grade has an id",
+    migrate: (subjects) =>
+      subjects.map((subject) => ({
+        ...subject,
+        grades: subject.grades.map((grade) => ({
+          ...grade,
+          id: grade.id || generateId(),
+        })),
+      })),
+  },
+  {
+    version: 3,
+    description: "Every grade has a weight",
+    // Taken from the subject's configured type weights
+    migrate: (subjects) =>
+      subjects.map((subject) => ({
+        ...subject,
+        grades: subject.grades.map((grade) => ({
+          ...grade,
+          weight:
+            grade.weight === undefined
+              ? getTypeWeight(grade.type, subject.weighting)
+              : grade.weight,
+        })),
+      })),
+  },
+];
+
+// Data saved before versions were stored counts as version 0
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Run every migration newer than the given version, in order
+export function runMigrations(
+  subjects: Subject[],
+  fromVersion: number
+): Subject[] {
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => {
+      try {
+        return migration.migrate(current);
+      } catch (error: any) {
+        throw new Error(
+          `Migration to version ${migration.version} (${
+            migration.description
+          }) failed: ${error?.message || error}`
+        );
+      }
+    }, subjects);
+}
+
+export interface MigrationBackup {
+  version: number; // Schema version of the backed up data
+  createdAt: string;
+  error: string;
+  subjects: Subject[];
+}
+
+// Keep data that could not be migrated, so it is not lost
+export function saveMigrationBackup(
+  subjects: Subject[],
+  version: number,
+  error: string
+): boolean {
+  try {
+    const backup: MigrationBackup = {
+      version,
+      createdAt: new Date().toISOString(),
+      error,
+      subjects,
+    };
+    localStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
+    return true;
+  } catch (backupError) {
+    console.error("Error saving migration backup:", backupError);
+    return false;
+  }
+}
+
+export function getMigrationBackup(): MigrationBackup | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  try {
+    const backupJson = localStorage.getItem(BACKUP_KEY);
+    return backupJson ? JSON.parse(backupJson) : null;
+  } catch (error) {
+    console.error("Error reading migration backup:", error);
+    return null;
+  }
+}
@@ -0,0 +1,285 @@
+import type { Grade, Subject } from "../types/grades";
+import type {
+  OutboxEntry,
+  OutboxMutation,
+  OutboxMutationType,
+} from "../types/sync";
+import { syncGradeDocument, syncSubjectDocument } from "@/lib/appwrite";
+
+const OUTBOX_KEY = "gradeCalculatorOutbox";
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Notify other components that pending changes were queued or sent
+export function notifyOutboxUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("outboxUpdated"));
+  }
+}
+
+function readOutbox(): OutboxEntry[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const outboxJson = localStorage.getItem(OUTBOX_KEY);
+    const entries = outboxJson ? JSON.parse(outboxJson) : [];
+    return Array.isArray(entries) ? entries : [];
+  } catch (error) {
+    console.error("Error reading outbox from localStorage:", error);
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]): boolean {
+  try {
+    localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    notifyOutboxUpdated();
+    return true;
+  } catch (error) {
+    console.error("Error saving outbox to localStorage:", error);
+    return false;
+  }
+}
+
+// Pending changes of a user in the order they were made
+export function getOutbox(userId: string): OutboxEntry[] {
+  return readOutbox().filter((entry) => entry.userId === userId);
+}
+
+export function hasPendingChanges(userId: string): boolean {
+  return getOutbox(userId).length > 0;
+}
+
+export function clearOutbox(userId: string): boolean {
+  const entries = readOutbox();
+  const remaining = entries.filter((entry) => entry.userId !== userId);
+  return remaining.length === entries.length || writeOutbox(remaining);
+}
+
+// Everything except the grades, which are compared one by one
+const subjectFields = ({ grades, ...subject }: Subject) =>
+  JSON.stringify(subject);
+
+const gradeMutations = (
+  type: OutboxMutationType,
+  subjectId: string,
+  grades: Grade[]
+): OutboxMutation[] =>
+  grades.map((grade) => ({ type, subjectId, gradeId: grade.id }));
+
+// Changes between two saved states, subjects before their grades
+export function diffSubjects(
+  previous: Subject[],
+  next: Subject[]
+): OutboxMutation[] {
+  const mutations: OutboxMutation[] = [];
+
+  next.forEach((subject, position) => {
+    const previousPosition = previous.findIndex((s) => s.id === subject.id);
+    const before = previous[previousPosition];
+    if (!before) {
+      mutations.push({ type: "addSubject", subjectId: subject.id });
+      mutations.push(...gradeMutations("addGrade", subject.id, subject.grades));
+      return;
+    }
+
+    // Reordering changes the stored position
+    if (
+      previousPosition !== position ||
+      subjectFields(before) !== subjectFields(subject)
+    ) {
+      mutations.push({ type: "updateSubject", subjectId: subject.id });
+    }
+
+    for (const grade of subject.grades) {
+      const previousGrade = before.grades.find((g) => g.id === grade.id);
+      if (!previousGrade) {
+        mutations.push({
+          type: "addGrade",
+          subjectId: subject.id,
+          gradeId: grade.id,
+        });
+      } else if (JSON.stringify(previousGrade) !== JSON.stringify(grade)) {
+        mutations.push({
+          type: "updateGrade",
+          subjectId: subject.id,
+          gradeId: grade.id,
+        });
+      }
+    }
+    mutations.push(
+      ...gradeMutations(
+        "deleteGrade",
+        subject.id,
+        before.grades.filter(
+          (grade) => !subject.grades.some((g) => g.id === grade.id)
+        )
+      )
+    );
+  });
+
+  for (const subject of previous) {
+    if (!next.some((s) => s.id === subject.id)) {
+      mutations.push(
+        ...gradeMutations("deleteGrade", subject.id, subject.grades)
+      );
+      mutations.push({ type: "deleteSubject", subjectId: subject.id });
+    }
+  }
+
+  return mutations;
+}
+
+const getEntryId = (mutation: OutboxMutation) =>
+  mutation.gradeId
+    ? `grade:${mutation.subjectId}/${mutation.gradeId}`
+    : `subject:${mutation.subjectId}`;
+
+// An update of something that was never sent is still an add
+const mergeTypes = (
+  queued: OutboxMutationType,
+  next: OutboxMutationType
+): OutboxMutationType =>
+  queued.startsWith("add") && next.startsWith("update") ? queued : next;
+
+// Queue changes for later. Each subject and grade has at most one entry,
+// which keeps its place in the queue while later changes update its type.
+export function enqueueMutations(
+  userId: string,
+  mutations: OutboxMutation[]
+): boolean {
+  if (mutations.length === 0) return true;
+
+  const entries = readOutbox();
+  for (const mutation of mutations) {
+    const id = getEntryId(mutation);
+    const queued = entries.find(
+      (entry) => entry.userId === userId && entry.id === id
+    );
+    if (queued) {
+      queued.type = mergeTypes(queued.type, mutation.type);
+      queued.revision++;
+    } else {
+      entries.push({
+        ...mutation,
+        id,
+        userId,
+        createdAt: new Date().toISOString(),
+        revision: 0,
+        attempts: 0,
+      });
+    }
+  }
+
+  return writeOutbox(entries);
+}
+
+// Entries changed while they were being sent stay queued
+function removeEntry(entry: OutboxEntry): void {
+  writeOutbox(
+    readOutbox().filter(
+      (e) =>
+        !(
+          e.userId === entry.userId &&
+          e.id === entry.id &&
+          e.revision === entry.revision
+        )
+    )
+  );
+}
+
+// Exponential backoff, starting again once an entry goes through
+function markFailed(entry: OutboxEntry, message: string): void {
+  const entries = readOutbox();
+  const queued = entries.find(
+    (e) => e.userId === entry.userId && e.id === entry.id
+  );
+  if (!queued) return;
+
+  queued.attempts++;
+  queued.lastError = message;
+  queued.nextAttemptAt =
+    Date.now() +
+    Math.min(
+      MAX_RETRY_DELAY_MS,
+      BASE_RETRY_DELAY_MS * 2 ** (queued.attempts - 1)
+    );
+  writeOutbox(entries);
+}
+
+// Milliseconds until the next entry may be retried, null when nothing is queued
+export function getNextReplayDelay(userId: string): number | null {
+  const [first] = getOutbox(userId);
+  if (!first) return null;
+  return Math.max(0, (first.nextAttemptAt ?? 0) - Date.now());
+}
+
+const sendEntry = (userId: string, entry: OutboxEntry, subjects: Subject[]) => {
+  const isDelete = entry.type.startsWith("delete");
+  const position = subjects.findIndex((s) => s.id === entry.subjectId);
+  const subject = isDelete ? undefined : subjects[position];
+
+  if (entry.gradeId) {
+    const grade = subject?.grades.find((g) => g.id === entry.gradeId);
+    return syncGradeDocument(
+      userId,
+      entry.subjectId,
+      entry.gradeId,
+      grade ?? null
+    );
+  }
+  return syncSubjectDocument(
+    userId,
+    entry.subjectId,
+    subject ?? null,
+    position
+  );
+};
+
+let replaying: Promise<boolean> | null = null;
+
+// Send queued changes in order with the current local data. Stops at the
+// first failure so later changes never overtake earlier ones. Resolves to
+// true once the outbox of the user is empty.
+export function replayOutbox(
+  userId: string,
+  subjects: Subject[]
+): Promise<boolean> {
+  if (!replaying) {
+    replaying = runReplay(userId, subjects).finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+}
+
+async function runReplay(
+  userId: string,
+  subjects: Subject[]
+): Promise<boolean> {
+  for (const entry of getOutbox(userId)) {
+    if (entry.nextAttemptAt && entry.nextAttemptAt > Date.now()) {
+      return false;
+    }
+
+    try {
+      const result = await sendEntry(userId, entry, subjects);
+      if (!result.success) {
+        markFailed(
+          entry,
+          result.failures[0]?.message || "Unknown sync failure"
+        );
+        return false;
+      }
+      removeEntry(entry);
+    } catch (error: any) {
+      console.error("Error replaying outbox entry:", error);
+      markFailed(entry, error?.message || String(error));
+      return false;
+    }
+  }
+
+  return true;
+}
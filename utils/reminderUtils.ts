@@ -0,0 +1,235 @@
+import type {
+  ScheduledReminder,
+  UpcomingAssessment,
+} from "../types/assessments";
+import type { Subject } from "../types/grades";
+import type { AppSettings } from "../types/settings";
+
+const SENT_REMINDERS_KEY = "gradeCalculatorSentReminders";
+const WORKER_URL = "/reminder-sw.js";
+// Same tag as in public/reminder-sw.js
+const PERIODIC_SYNC_TAG = "exam-reminders";
+const PERIODIC_SYNC_INTERVAL = 12 * 60 * 60 * 1000;
+
+export const REMINDER_LEAD_DAYS = [1, 2, 3, 5, 7, 14];
+
+export type ReminderPermission = NotificationPermission | "unsupported";
+
+// Dates are local YYYY-MM-DD strings, so whole days are compared
+const toUtc = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((toUtc(to) - toUtc(from)) / 86400000);
+
+const addDays = (date: string, days: number) =>
+  new Date(toUtc(date) + days * 86400000).toISOString().split("T")[0];
+
+// Periodic background sync is not part of the DOM types yet
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+  };
+};
+
+export function getToday(): string {
+  return new Date().toLocaleDateString("en-CA");
+}
+
+export function getLeadDays(subjectId: string, settings: AppSettings): number {
+  return (
+    settings.subjectReminderLeadDays?.[subjectId] ?? settings.reminderLeadDays
+  );
+}
+
+// Days until an assessment, 0 on the day itself
+export function getDaysLeft(
+  assessment: UpcomingAssessment,
+  today: string = getToday()
+): number {
+  return daysBetween(today, assessment.date);
+}
+
+export function describeDaysLeft(daysLeft: number): string {
+  if (daysLeft === 0) return "today";
+  if (daysLeft === 1) return "tomorrow";
+  return `in ${daysLeft} days`;
+}
+
+// Assessments within their lead time that have not taken place yet
+export function getDueReminders(
+  assessments: UpcomingAssessment[],
+  settings: AppSettings,
+  today: string = getToday()
+): UpcomingAssessment[] {
+  return assessments.filter((assessment) => {
+    const daysLeft = getDaysLeft(assessment, today);
+    return (
+      daysLeft >= 0 && daysLeft <= getLeadDays(assessment.subjectId, settings)
+    );
+  });
+}
+
+// Reminders already shown, as assessment id to the date it was shown for.
+// Moving an assessment to another date makes it due again.
+function getSentReminders(): Record<string, string> {
+  if (typeof window === "undefined") {
+    return {};
+  }
+
+  try {
+    const sentJson = localStorage.getItem(SENT_REMINDERS_KEY);
+    return sentJson ? JSON.parse(sentJson) : {};
+  } catch (error) {
+    console.error("Error reading sent reminders from localStorage:", error);
+    return {};
+  }
+}
+
+export function getPendingReminders(
+  assessments: UpcomingAssessment[],
+  settings: AppSettings,
+  today: string = getToday()
+): UpcomingAssessment[] {
+  const sent = getSentReminders();
+  return getDueReminders(assessments, settings, today).filter(
+    (assessment) => sent[assessment.id] !== assessment.date
+  );
+}
+
+// Remember reminders as shown, forgetting assessments that no longer exist
+export function markRemindersSent(
+  reminded: Pick<UpcomingAssessment, "id" | "date">[],
+  assessments: UpcomingAssessment[]
+): boolean {
+  try {
+    const ids = new Set(assessments.map((assessment) => assessment.id));
+    const sent = Object.fromEntries(
+      Object.entries(getSentReminders()).filter(([id]) => ids.has(id))
+    );
+    reminded.forEach((assessment) => {
+      sent[assessment.id] = assessment.date;
+    });
+    localStorage.setItem(SENT_REMINDERS_KEY, JSON.stringify(sent));
+    return true;
+  } catch (error) {
+    console.error("Error saving sent reminders to localStorage:", error);
+    return false;
+  }
+}
+
+export function getNotificationPermission(): ReminderPermission {
+  if (
+    typeof window === "undefined" ||
+    !("Notification" in window) ||
+    !("serviceWorker" in navigator)
+  ) {
+    return "unsupported";
+  }
+  return Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<ReminderPermission> {
+  if (getNotificationPermission() === "unsupported") {
+    return "unsupported";
+  }
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error("Error requesting notification permission:", error);
+    return Notification.permission;
+  }
+}
+
+// The worker shows the notifications, which also works on mobile browsers
+// where notifications cannot be created from the page
+export async function registerReminderWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (getNotificationPermission() === "unsupported") {
+    return null;
+  }
+
+  try {
+    return await navigator.serviceWorker.register(WORKER_URL);
+  } catch (error) {
+    console.error("Error registering the reminder service worker:", error);
+    return null;
+  }
+}
+
+// Reminders of all assessments still to come that have not been shown, for
+// the service worker
+export function getReminderSchedule(
+  assessments: UpcomingAssessment[],
+  settings: AppSettings,
+  subjects: Subject[],
+  today: string = getToday()
+): ScheduledReminder[] {
+  const sent = getSentReminders();
+  return assessments
+    .filter(
+      (assessment) =>
+        getDaysLeft(assessment, today) >= 0 &&
+        sent[assessment.id] !== assessment.date
+    )
+    .map((assessment) => {
+      const subjectName =
+        subjects.find((subject) => subject.id === assessment.subjectId)
+          ?.name ?? "Assessment";
+      return {
+        id: assessment.id,
+        date: assessment.date,
+        remindOn: addDays(
+          assessment.date,
+          -getLeadDays(assessment.subjectId, settings)
+        ),
+        title: `${subjectName}: ${assessment.type}`,
+        body:
+          assessment.topic || "Open the calendar to see what is coming up",
+      };
+    });
+}
+
+// Browsers allow background checks only for installed apps, and only after
+// granting this permission; elsewhere reminders wait until the app is opened
+async function registerPeriodicCheck(registration: ServiceWorkerRegistration) {
+  const { periodicSync } = registration as PeriodicSyncRegistration;
+  if (!periodicSync || !navigator.permissions) return;
+
+  try {
+    const status = await navigator.permissions.query({
+      name: "periodic-background-sync" as PermissionName,
+    });
+    if (status.state !== "granted") return;
+    await periodicSync.register(PERIODIC_SYNC_TAG, {
+      minInterval: PERIODIC_SYNC_INTERVAL,
+    });
+  } catch (error) {
+    console.error("Error registering periodic reminder checks:", error);
+  }
+}
+
+// Hand the schedule to the service worker. It shows reminders once they are
+// due, one check at a time, and reports them back with a "remindersShown"
+// message.
+export async function scheduleReminders(
+  reminders: ScheduledReminder[]
+): Promise<boolean> {
+  if (getNotificationPermission() !== "granted") {
+    return false;
+  }
+
+  try {
+    if (!(await registerReminderWorker())) return false;
+    const registration = await navigator.serviceWorker.ready;
+    if (!registration.active) return false;
+    registration.active.postMessage({ type: "schedule", reminders });
+    await registerPeriodicCheck(registration);
+    return true;
+  } catch (error) {
+    console.error("Error scheduling reminders:", error);
+    return false;
+  }
+}
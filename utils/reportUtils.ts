@@ -0,0 +1,53 @@
+import type { Subject } from "../types/grades";
+import type { ReportRange } from "../types/report";
+import type { Term } from "../types/terms";
+import { calculateSubjectAverage, getSubjectTermView } from "./storageUtils";
+
+// Subjects reduced to the grades in the range, with averages of those
+// grades. A term range uses the term view, so archived terms show their
+// frozen averages.
+export function getReportSubjects(
+  subjects: Subject[],
+  range: ReportRange,
+  terms: Term[]
+): Subject[] {
+  if (range.type === "term") {
+    const term = terms.find((t) => t.id === range.termId) ?? null;
+    return subjects.map((subject) => getSubjectTermView(subject, term));
+  }
+
+  if (range.type === "dates") {
+    return subjects.map((subject) => {
+      const grades = subject.grades.filter(
+        (grade) =>
+          (!range.from || grade.date >= range.from) &&
+          (!range.to || grade.date <= range.to)
+      );
+      return {
+        ...subject,
+        grades,
+        averageGrade: calculateSubjectAverage({ ...subject, grades }),
+      };
+    });
+  }
+
+  return subjects;
+}
+
+// Heading of the report, e.g. "2024/25 1. Halbjahr" or "From 2024-09-01"
+export function describeReportRange(range: ReportRange, terms: Term[]): string {
+  if (range.type === "term") {
+    const term = terms.find((t) => t.id === range.termId);
+    return term
+      ? `${term.name} (${term.startDate} – ${term.endDate})`
+      : "Unknown term";
+  }
+
+  if (range.type === "dates") {
+    if (range.from && range.to) return `${range.from} – ${range.to}`;
+    if (range.from) return `From ${range.from}`;
+    if (range.to) return `Until ${range.to}`;
+  }
+
+  return "All grades";
+}
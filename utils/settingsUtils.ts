@@ -0,0 +1,48 @@
+import type { AppSettings } from "../types/settings";
+
+const SETTINGS_KEY = "gradeCalculatorSettings";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  gradingScale: "german",
+  tendencyOffset: 0.3,
+  remindersEnabled: false,
+  reminderLeadDays: 3,
+};
+
+// Notify other components that settings have changed
+export function notifySettingsUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("settingsUpdated"));
+  }
+}
+
+// Read settings from localStorage, filling in defaults for missing keys
+export function getSettings(): AppSettings {
+  if (typeof window === "undefined") {
+    return DEFAULT_SETTINGS;
+  }
+
+  try {
+    const settingsJson = localStorage.getItem(SETTINGS_KEY);
+    if (!settingsJson) {
+      return DEFAULT_SETTINGS;
+    }
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) };
+  } catch (error) {
+    console.error("Error reading settings from localStorage:", error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+// Merge a partial update into the stored settings
+export function saveSettings(patch: Partial<AppSettings>): boolean {
+  try {
+    const settings = { ...getSettings(), ...patch };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    notifySettingsUpdated();
+    return true;
+  } catch (error) {
+    console.error("Error saving settings to localStorage:", error);
+    return false;
+  }
+}
@@ -0,0 +1,106 @@
+import type { Subject } from "../types/grades";
+import type {
+  Snapshot,
+  SnapshotInfo,
+  SnapshotKind,
+} from "../types/repository";
+import { getGradeRepository } from "./gradeRepository";
+
+export const MAX_SAVE_SNAPSHOTS = 20;
+export const MAX_DAILY_SNAPSHOTS = 30;
+
+// Notify other components that snapshots were taken or removed
+export function notifySnapshotsUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("snapshotsUpdated"));
+  }
+}
+
+const createSnapshot = (
+  id: string,
+  kind: SnapshotKind,
+  createdAt: string,
+  subjects: Subject[],
+  data: string
+): Snapshot => ({
+  id,
+  kind,
+  createdAt,
+  subjectCount: subjects.length,
+  gradeCount: subjects.reduce(
+    (sum, subject) => sum + subject.grades.length,
+    0
+  ),
+  data,
+});
+
+// Avoids a new snapshot when a save did not change anything
+let lastSnapshotData: string | null = null;
+
+// Keep a copy of the saved subjects: one per save for the last saves, and
+// the last state of every day for the last days. Failures are logged only,
+// so they never block a save.
+export async function recordSnapshot(subjects: Subject[]): Promise<void> {
+  try {
+    const data = JSON.stringify(subjects);
+    if (data === lastSnapshotData) return;
+
+    const repository = await getGradeRepository();
+    const now = new Date();
+    const createdAt = now.toISOString();
+    // Local date as YYYY-MM-DD, so days end at the user's midnight
+    const day = now.toLocaleDateString("en-CA");
+
+    const saveId = `save-${now.getTime()}`;
+    await repository.saveSnapshot(
+      createSnapshot(saveId, "save", createdAt, subjects, data)
+    );
+    await repository.saveSnapshot(
+      createSnapshot(`daily-${day}`, "daily", createdAt, subjects, data)
+    );
+    lastSnapshotData = data;
+
+    // Drop the oldest snapshots of each kind
+    const snapshots = await repository.listSnapshots();
+    const expired = [
+      ...snapshots
+        .filter((snapshot) => snapshot.kind === "save")
+        .slice(MAX_SAVE_SNAPSHOTS),
+      ...snapshots
+        .filter((snapshot) => snapshot.kind === "daily")
+        .slice(MAX_DAILY_SNAPSHOTS),
+    ];
+    if (expired.length > 0) {
+      await repository.deleteSnapshots(expired.map((snapshot) => snapshot.id));
+    }
+    notifySnapshotsUpdated();
+  } catch (error) {
+    console.error("Error recording snapshot:", error);
+  }
+}
+
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  try {
+    const repository = await getGradeRepository();
+    return await repository.listSnapshots();
+  } catch (error) {
+    console.error("Error listing snapshots:", error);
+    return [];
+  }
+}
+
+// Subjects saved in a snapshot, or null if it cannot be read
+export async function getSnapshotSubjects(
+  id: string
+): Promise<Subject[] | null> {
+  try {
+    const repository = await getGradeRepository();
+    const snapshot = await repository.getSnapshot(id);
+    if (!snapshot) return null;
+    const subjects = JSON.parse(snapshot.data);
+    return Array.isArray(subjects) ? subjects : null;
+  } catch (error) {
+    console.error("Error reading snapshot:", error);
+    return null;
+  }
+}
@@ -0,0 +1,48 @@
+// Set when saved subjects could not be read, so the user can be offered a
+// restore. Kept across reloads until the user restores a backup, starts
+// over or keeps the subjects stored now. Saves are refused while it is set,
+// so the unreadable data is never overwritten by accident.
+const STORAGE_FAILURE_KEY = "gradeCalculatorStorageFailure";
+
+// Read from localStorage on first use
+let storageFailure: string | null | undefined;
+
+const notifyStorageFailure = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("storageFailure"));
+  }
+};
+
+export function reportStorageFailure(message: string): void {
+  storageFailure = message;
+  try {
+    localStorage.setItem(STORAGE_FAILURE_KEY, message);
+  } catch (error) {
+    // Still refused for this page
+    console.error("Error saving storage failure:", error);
+  }
+  notifyStorageFailure();
+}
+
+export function getStorageFailure(): string | null {
+  if (storageFailure === undefined) {
+    if (typeof window === "undefined") return null;
+    try {
+      storageFailure = localStorage.getItem(STORAGE_FAILURE_KEY);
+    } catch (error) {
+      console.error("Error reading storage failure:", error);
+      storageFailure = null;
+    }
+  }
+  return storageFailure;
+}
+
+export function clearStorageFailure(): void {
+  storageFailure = null;
+  try {
+    localStorage.removeItem(STORAGE_FAILURE_KEY);
+  } catch (error) {
+    console.error("Error clearing storage failure:", error);
+  }
+  notifyStorageFailure();
+}
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Grade, Subject } from "../types/grades";
+import type { Term } from "../types/terms";
+import { GRADING_SCALES, convertGrade, roundAverage } from "./gradingScales";
+import { MIGRATIONS, SCHEMA_VERSION, getMigrationBackup } from "./migrations";
+import {
+  calculateOverallAverage,
+  calculateSubjectContributions,
+  getSubjectTermView,
+  getSubjectsFromStorage,
+  prepareNewGrades,
+  remapTendencyGrades,
+  saveSubjectsToStorage,
+  updateSubjectScale,
+} from "./storageUtils";
+import { getTerms, saveTerms } from "./termUtils";
+
+// Keys of the localStorage repository, used when IndexedDB is unavailable
+const STORAGE_KEY = "gradeCalculator";
+const SCHEMA_VERSION_KEY = "gradeCalculatorSchemaVersion";
+
+describe("stored data migration", () => {
+  // Saved by the first versions: no schema version, no ids or weights
+  const legacySubjects = [
+    {
+      id: "math",
+      name: "Mathematics",
+      grades: [{ value: 2, type: "Test", date: "2025-01-15" }],
+    },
+  ];
+
+  const storedSubjects = (): Subject[] =>
+    JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+
+  beforeEach(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(legacySubjects));
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("saves the migrated data and the current schema version", async () => {
+    const [math] = await getSubjectsFromStorage();
+
+    expect(math.grades[0].id).toBeTruthy();
+    expect(math.grades[0].weight).toBe(2);
+    expect(math.averageGrade).toBe(2);
+    expect(storedSubjects()[0].grades[0]).toMatchObject({
+      id: math.grades[0].id,
+      weight: 2,
+    });
+    expect(localStorage.getItem(SCHEMA_VERSION_KEY)).toBe(
+      String(SCHEMA_VERSION)
+    );
+    expect(getMigrationBackup()).toBeNull();
+  });
+
+  it("keeps the data and backs it up when a migration fails", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(MIGRATIONS[2], "migrate").mockImplementation(() => {
+      throw new Error("Unexpected grade");
+    });
+
+    const subjects = await getSubjectsFromStorage();
+
+    expect(subjects).toEqual(legacySubjects);
+    expect(storedSubjects()).toEqual(legacySubjects);
+    expect(localStorage.getItem(SCHEMA_VERSION_KEY)).toBeNull();
+    expect(getMigrationBackup()).toMatchObject({
+      version: 0,
+      error:
+        "Migration to version 3 (Every grade has a weight) failed: Unexpected grade",
+      subjects: legacySubjects,
+    });
+  });
+});
+
+describe("calculateOverallAverage", () => {
+  const german = GRADING_SCALES.german;
+
+  // Only the cached average counts, the grades just need to be there
+  const subject = (
+    id: string,
+    averageGrade: number,
+    overrides: Partial<Subject> = {}
+  ): Subject => ({
+    id,
+    name: id,
+    averageGrade,
+    grades: [
+      {
+        id: `${id}-1`,
+        value: averageGrade,
+        type: "Test",
+        date: "2025-01-15",
+        weight: 2,
+      },
+    ],
+    ...overrides,
+  });
+
+  it("weights subjects equally by default", () => {
+    expect(
+      calculateOverallAverage([subject("math", 1), subject("art", 4)], german)
+    ).toBe(2.5);
+  });
+
+  it("weights subjects by their credits", () => {
+    const subjects = [
+      subject("math", 1, { creditWeight: 2 }),
+      subject("art", 4),
+    ];
+
+    expect(calculateOverallAverage(subjects, german)).toBe(2);
+    expect(
+      calculateSubjectContributions(subjects, german).map(
+        (c) => c.effectiveShare
+      )
+    ).toEqual([2 / 3, 1 / 3]);
+  });
+
+  it("rounds to the scale's average step", () => {
+    const subjects = [
+      subject("math", 1, { creditWeight: 2 }),
+      subject("art", 2),
+    ];
+    expect(calculateOverallAverage(subjects, german)).toBe(1.33);
+  });
+
+  // The dashboard leaves archived subjects out, the report lets the user
+  // include them, so they count exactly when they are passed in
+  it("counts archived subjects only when they are passed in", () => {
+    const subjects = [
+      subject("math", 1),
+      subject("latin", 5, { archived: true }),
+    ];
+
+    expect(calculateOverallAverage(subjects, german)).toBe(3);
+    expect(
+      calculateOverallAverage(subjects.filter((s) => !s.archived), german)
+    ).toBe(1);
+  });
+
+  it("leaves out subjects without grades", () => {
+    // A stale average must not count once the grades are gone
+    const empty = subject("art", 6, { grades: [], creditWeight: 3 });
+    const subjects = [subject("math", 2), empty];
+
+    expect(calculateOverallAverage(subjects, german)).toBe(2);
+    expect(calculateSubjectContributions(subjects, german)[1]).toMatchObject({
+      average: null,
+      effectiveShare: 0,
+      contribution: 0,
+    });
+  });
+
+  it("is null when no subject has grades", () => {
+    expect(calculateOverallAverage([], german)).toBeNull();
+    expect(
+      calculateOverallAverage([subject("math", 2, { grades: [] })], german)
+    ).toBeNull();
+  });
+});
+
+describe("archived terms", () => {
+  const { german, punkte } = GRADING_SCALES;
+
+  const archivedTerm: Term = {
+    id: "t1",
+    name: "2024/25 1. Halbjahr",
+    startDate: "2024-08-01",
+    endDate: "2025-01-31",
+    active: false,
+    archived: true,
+    frozenAverages: { math: 2.3 },
+  };
+
+  const math: Subject = {
+    id: "math",
+    name: "Mathematics",
+    averageGrade: 2.3,
+    grades: [
+      {
+        id: "g1",
+        value: 2.3,
+        notation: "2-",
+        type: "Test",
+        date: "2025-01-15",
+        weight: 2,
+        termId: "t1",
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    saveTerms([archivedTerm]);
+    await saveSubjectsToStorage([math]);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("keep their frozen averages in the subject's new scale", async () => {
+    expect(await updateSubjectScale("math", "punkte", true)).toBe(true);
+
+    const [subject] = await getSubjectsFromStorage();
+    const [term] = getTerms();
+    const converted = roundAverage(convertGrade(2.3, german, punkte), punkte);
+    expect(term.frozenAverages).toEqual({ math: converted });
+    expect(getSubjectTermView(subject, term).averageGrade).toBe(converted);
+  });
+
+  it("keep their grades when the tendency offset changes", async () => {
+    expect(await remapTendencyGrades(0.25)).toBe(true);
+
+    const [subject] = await getSubjectsFromStorage();
+    expect(subject.grades[0].value).toBe(2.3);
+  });
+});
+
+describe("prepareNewGrades", () => {
+  const term = (id: string, active = false): Term => ({
+    id,
+    name: id,
+    startDate: "2025-02-01",
+    endDate: "2025-07-31",
+    active,
+  });
+
+  const grade: Grade = {
+    id: "",
+    value: 2,
+    type: "Test",
+    date: "2025-03-10",
+    weight: 2,
+  };
+
+  it("puts grades into the term of their date", () => {
+    const [prepared] = prepareNewGrades([grade], [term("t2")]);
+
+    expect(prepared.id).toBeTruthy();
+    expect(prepared.termId).toBe("t2");
+  });
+
+  it("puts grades outside every term into the active term", () => {
+    const [prepared] = prepareNewGrades(
+      [{ ...grade, date: "2024-03-10" }],
+      [term("t2", true)]
+    );
+
+    expect(prepared.termId).toBe("t2");
+  });
+
+  it("keeps a term that was chosen", () => {
+    const [prepared] = prepareNewGrades(
+      [{ ...grade, termId: "t1" }],
+      [term("t2")]
+    );
+
+    expect(prepared.termId).toBe("t1");
+  });
+});
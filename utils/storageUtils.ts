@@ -1,17 +1,101 @@
-import type { Subject, Grade } from "../types/grades";
+import type {
+  Subject,
+  Grade,
+  GradeCategory,
+  GradeTypeConfig,
+  WeightingConfig,
+  CategoryBreakdown,
+  GradingScaleId,
+  SubjectContribution,
+  PlannedAssessment,
+  GradeRequirement,
+} from "../types/grades";
+import type { Term } from "../types/terms";
+import type { AbiturCourse } from "../types/abitur";
+import type { ConflictSide, SyncConflict } from "../types/sync";
 import {
   syncSubjectsToCloud,
   getSubjectsFromCloud,
   ENABLE_CLOUD_FEATURES,
 } from "@/lib/appwrite";
+import {
+  convertGrade,
+  getGradingScale,
+  getSubjectScale,
+  isAtLeastAsGood,
+  roundAverage,
+  roundToStep,
+  type GradingScale,
+} from "./gradingScales";
+import { getSettings } from "./settingsUtils";
+import { remapTendencyGrade } from "./tendencyUtils";
+import {
+  clearOutbox,
+  diffSubjects,
+  enqueueMutations,
+  hasPendingChanges,
+} from "./outboxUtils";
+import {
+  addConflicts,
+  canonicalJson,
+  getSyncBase,
+  mergeSubjects,
+  removeConflict,
+  saveSyncBase,
+  stampChanges,
+} from "./mergeUtils";
+import {
+  findTermForDate,
+  getActiveTerm,
+  getTerms,
+  isTermArchived,
+  saveTerms,
+  updateTerm,
+} from "./termUtils";
+import { discardUnreadableData, getGradeRepository } from "./gradeRepository";
+import {
+  SCHEMA_VERSION,
+  runMigrations,
+  saveMigrationBackup,
+} from "./migrations";
+import { getSnapshotSubjects, recordSnapshot } from "./snapshotUtils";
+import {
+  clearStorageFailure,
+  getStorageFailure,
+  reportStorageFailure,
+} from "./storageFailure";
+import {
+  applyHistoryEntry,
+  clearHistory,
+  completeHistoryEntry,
+  recordHistory,
+  takeHistoryEntry,
+} from "./historyUtils";
+import type { HistoryDirection } from "../types/history";
 
-const STORAGE_KEY = "gradeCalculator";
+// Grade types used by subjects without their own weighting configuration
+export const DEFAULT_GRADE_TYPES: GradeTypeConfig[] = [
+  { name: "Test", weight: 2.0 }, // Tests count double
+  { name: "Oral Exam", weight: 1.0 },
+  { name: "Homework", weight: 1.0 },
+  { name: "Project", weight: 1.0 },
+];
 
 // Debug function to log storage operations
 const logStorageOperation = (operation: string, data: any) => {
   console.log(`Storage ${operation}:`, data);
 };
 
+// Generate a stable unique identifier for grades and subjects
+export function generateId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 10)}`;
+}
+
 // Initialize default subjects
 export function initializeSubjects(): Subject[] {
   const defaultSubjects = [
@@ -24,54 +108,113 @@ export function initializeSubjects(): Subject[] {
   return defaultSubjects;
 }
 
+// IndexedDB has no storage event, so other tabs hear about changes through
+// a broadcast channel
+const subjectsChannel =
+  typeof window !== "undefined" && typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("gradeCalculator")
+    : null;
+subjectsChannel?.addEventListener("message", () => {
+  window.dispatchEvent(new Event("subjectsUpdated"));
+});
+
 // Notify other components that subjects have been updated
 export function notifySubjectsUpdated(): void {
   if (typeof window !== "undefined") {
     const event = new Event("subjectsUpdated");
     window.dispatchEvent(event);
+    subjectsChannel?.postMessage("subjectsUpdated");
   }
 }
 
-// Save subjects to localStorage with error handling
+// Subjects currently stored on this device, without defaults or migrations
+async function readStoredSubjects(): Promise<Subject[]> {
+  const repository = await getGradeRepository();
+  return repository.getSubjects();
+}
+
+// Save subjects to the local repository with error handling. Edits made by
+// the user pass a label, so they can be undone. Nothing is saved while
+// stored subjects cannot be read, since that would replace them.
 export async function saveSubjectsToStorage(
   subjects: Subject[],
   userId?: string,
-  syncEnabled?: boolean
-): boolean {
+  syncEnabled?: boolean,
+  historyLabel?: string
+): Promise<boolean> {
+  if (getStorageFailure() !== null) {
+    console.error("Not saving subjects: stored subjects could not be read");
+    return false;
+  }
+  return writeSubjects(subjects, userId, syncEnabled, historyLabel);
+}
+
+// Replace the stored subjects, also when they could not be read
+async function writeSubjects(
+  subjects: Subject[],
+  userId?: string,
+  syncEnabled?: boolean,
+  historyLabel?: string
+): Promise<boolean> {
   try {
-    const subjectsJson = JSON.stringify(subjects);
+    const repository = await getGradeRepository();
+    // Only reached for unreadable data once the user chose to replace it
+    const previousSubjects = await repository
+      .getSubjects()
+      .catch((error) => {
+        console.error("Error reading previous subjects:", error);
+        return [] as Subject[];
+      });
+    subjects = stampChanges(previousSubjects, subjects);
     logStorageOperation("saving", subjects);
-    localStorage.setItem(STORAGE_KEY, subjectsJson);
+    await repository.saveSubjects(subjects);
+    if (historyLabel) {
+      recordHistory(historyLabel, previousSubjects, subjects);
+    }
+    await recordSnapshot(subjects);
     notifySubjectsUpdated();
 
     // If cloud features are enabled, user is logged in, and sync is enabled, sync to cloud
     if (ENABLE_CLOUD_FEATURES && userId && syncEnabled) {
-      try {
-        const syncSuccess = await syncSubjectsToCloud(userId, subjects);
-        if (!syncSuccess) {
-          console.log("Cloud sync failed - using local storage");
+      // Changes that cannot be synced now are queued and replayed later
+      const queueChanges = () =>
+        enqueueMutations(userId, diffSubjects(previousSubjects, subjects));
+
+      if (typeof navigator !== "undefined" && !navigator.onLine) {
+        queueChanges();
+      } else {
+        try {
+          const syncResult = await syncSubjectsToCloud(userId, subjects);
+          if (syncResult.success) {
+            // The full sync also sent everything that was queued
+            clearOutbox(userId);
+            saveSyncBase(userId, subjects);
+          } else {
+            queueChanges();
+            window.dispatchEvent(new Event("syncPreferenceChanged"));
+          }
+        } catch (error) {
+          console.error("Sync error:", error);
+          queueChanges();
           window.dispatchEvent(new Event("syncPreferenceChanged"));
         }
-      } catch (error) {
-        console.error("Sync error:", error);
-        window.dispatchEvent(new Event("syncPreferenceChanged"));
       }
     }
 
     return true;
   } catch (error) {
-    console.error("Error saving subjects to localStorage:", error);
+    console.error("Error saving subjects:", error);
     return false;
   }
 }
 
-// Get subjects from localStorage or cloud with error handling
+// Get subjects from the local repository or cloud with error handling
 export async function getSubjectsFromStorage(
   userId?: string,
   syncEnabled?: boolean
 ): Promise<Subject[]> {
   try {
-    // If cloud features are enabled, user is logged in, and sync is enabled, try to get from cloud first
+    // If cloud features are enabled, user is logged in, and sync is enabled, merge with the cloud copy
     if (ENABLE_CLOUD_FEATURES && userId && syncEnabled) {
       try {
         const cloudSubjects = await getSubjectsFromCloud(userId);
@@ -80,10 +223,7 @@ export async function getSubjectsFromStorage(
           Array.isArray(cloudSubjects) &&
           cloudSubjects.length > 0
         ) {
-          // Save cloud subjects to local storage for offline access
-          const subjectsJson = JSON.stringify(cloudSubjects);
-          localStorage.setItem(STORAGE_KEY, subjectsJson);
-          return cloudSubjects;
+          return await mergeWithCloud(userId, cloudSubjects);
         }
       } catch (error) {
         console.error("Error getting subjects from cloud:", error);
@@ -96,69 +236,340 @@ export async function getSubjectsFromStorage(
       return initializeSubjects();
     }
 
-    const subjectsJson = localStorage.getItem(STORAGE_KEY);
-    if (!subjectsJson) {
+    const repository = await getGradeRepository();
+    const subjects = await repository.getSubjects();
+
+    // If subjects is empty, initialize with default subjects, unless they
+    // are empty because they could not be read
+    if (subjects.length === 0) {
+      if (getStorageFailure() !== null) return [];
       const defaultSubjects = initializeSubjects();
-      saveSubjectsToStorage(defaultSubjects, userId, syncEnabled);
+      await saveSubjectsToStorage(defaultSubjects, userId, syncEnabled);
+      await repository.saveSchemaVersion(SCHEMA_VERSION);
       return defaultSubjects;
     }
 
-    let subjects: Subject[] = [];
-    try {
-      const parsedData = JSON.parse(subjectsJson);
-      subjects = Array.isArray(parsedData) ? parsedData : [];
-    } catch (e) {
-      console.error("Error parsing subjects JSON:", e);
-      subjects = [];
+    const version = await repository.getSchemaVersion();
+    if (version < SCHEMA_VERSION) {
+      return await migrateStoredSubjects(
+        subjects,
+        version,
+        userId,
+        syncEnabled
+      );
     }
 
-    // If subjects is empty, initialize with default subjects
-    if (!Array.isArray(subjects) || subjects.length === 0) {
-      subjects = initializeSubjects();
-      saveSubjectsToStorage(subjects, userId, syncEnabled);
-      return subjects;
+    logStorageOperation("retrieving", subjects);
+    return subjects;
+  } catch (error: any) {
+    // Stored data is left alone and the user is offered a backup instead.
+    // Saves are refused until then, so nothing is written over it.
+    console.error("Error retrieving subjects:", error);
+    reportStorageFailure(error?.message || String(error));
+    return [];
+  }
+}
+
+// Replace all subjects with the state saved in a snapshot. The state before
+// the restore stays available as the newest snapshot.
+export async function restoreSnapshot(
+  snapshotId: string,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const snapshotSubjects = await getSnapshotSubjects(snapshotId);
+    if (!snapshotSubjects) {
+      console.error(`Snapshot ${snapshotId} not found`);
+      return false;
     }
 
-    // Migrate existing grades to include weights
-    const migratedSubjects = subjects.map((subject) => {
-      if (subject.grades && subject.grades.length > 0) {
-        subject.grades = subject.grades.map((grade) => {
-          if (grade.weight === undefined) {
-            // Assign weight based on type
-            grade.weight = grade.type === "Test" ? 2.0 : 1.0;
-          }
-          return grade;
-        });
-        // Recalculate average with weights
-        subject.averageGrade = calculateAverage(subject.grades);
-      }
-      return subject;
-    });
+    // Snapshots may predate the current schema
+    const subjects = migrateSubjects(snapshotSubjects);
+    return await replaceStoredSubjects(subjects, userId, syncEnabled);
+  } catch (error) {
+    console.error("Error restoring snapshot:", error);
+    return false;
+  }
+}
+
+// Give up on subjects that could not be read and start with the defaults.
+// A copy of unreadable data stays available if one could be kept, see
+// getCorruptedData.
+export async function startWithDefaultSubjects(
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  return replaceStoredSubjects(initializeSubjects(), userId, syncEnabled);
+}
+
+// Whether subjects can be read from this device despite a storage failure,
+// e.g. when the failure did not happen again after a reload
+export async function hasStoredSubjects(): Promise<boolean> {
+  try {
+    const repository = await getGradeRepository();
+    return (await repository.getSubjects()).length > 0;
+  } catch (error) {
+    console.error("Error reading stored subjects:", error);
+    return false;
+  }
+}
 
-    // Save migrated subjects back to storage
-    if (JSON.stringify(subjects) !== JSON.stringify(migratedSubjects)) {
-      saveSubjectsToStorage(migratedSubjects, userId, syncEnabled);
+// Dismiss a storage failure and go on with the subjects stored now
+export async function keepStoredSubjects(): Promise<boolean> {
+  if (!(await hasStoredSubjects())) return false;
+  discardUnreadableData();
+  clearStorageFailure();
+  return true;
+}
+
+async function replaceStoredSubjects(
+  subjects: Subject[],
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  const success = await writeSubjects(subjects, userId, syncEnabled);
+  if (success) {
+    const repository = await getGradeRepository();
+    await repository.saveSchemaVersion(SCHEMA_VERSION);
+    discardUnreadableData();
+    clearStorageFailure();
+    // Earlier edits may refer to subjects that are gone now
+    clearHistory();
+  }
+  return success;
+}
+
+// Revert or reapply the latest edit; returns false if there is none or it
+// could not be saved
+async function applyHistory(
+  direction: HistoryDirection,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  const entry = takeHistoryEntry(direction);
+  if (!entry) return false;
+
+  let success = false;
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    // Grades added since the edit count towards the average as well
+    const touched = new Set(entry.changes.map((change) => change.id));
+    const updated = applyHistoryEntry(subjects, entry, direction).map(
+      (subject) =>
+        touched.has(subject.id) && subject.grades.length > 0
+          ? { ...subject, averageGrade: calculateSubjectAverage(subject) }
+          : subject
+    );
+    success = await saveSubjectsToStorage(updated, userId, syncEnabled);
+  } catch (error) {
+    console.error(`Error during ${direction}:`, error);
+  }
+  completeHistoryEntry(direction, entry, success);
+  return success;
+}
+
+export async function undoLastChange(
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  return applyHistory("undo", userId, syncEnabled);
+}
+
+export async function redoLastChange(
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  return applyHistory("redo", userId, syncEnabled);
+}
+
+// Bring stored subjects up to the current schema. If a migration fails, the
+// data is backed up and returned unchanged rather than overwritten.
+async function migrateStoredSubjects(
+  subjects: Subject[],
+  version: number,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<Subject[]> {
+  let migratedSubjects: Subject[];
+  try {
+    migratedSubjects = migrateSubjects(subjects, version);
+  } catch (error: any) {
+    console.error("Error migrating subjects:", error);
+    saveMigrationBackup(subjects, version, error?.message || String(error));
+    return subjects;
+  }
+
+  const success = await saveSubjectsToStorage(
+    migratedSubjects,
+    userId,
+    syncEnabled
+  );
+  if (success) {
+    const repository = await getGradeRepository();
+    await repository.saveSchemaVersion(SCHEMA_VERSION);
+  }
+  return migratedSubjects;
+}
+
+// Merge local subjects with the cloud copy, so edits made on other devices
+// and edits made here while offline both survive. An empty cloud copy is
+// never merged, since it cannot be told apart from a failed read.
+async function mergeWithCloud(
+  userId: string,
+  cloudSubjects: Subject[]
+): Promise<Subject[]> {
+  // Merging would replace what could not be read; show the cloud copy only
+  if (getStorageFailure() !== null) {
+    return migrateSubjects(cloudSubjects);
+  }
+
+  const { subjects, conflicts } = mergeSubjects(
+    userId,
+    await readStoredSubjects(),
+    cloudSubjects,
+    getSyncBase(userId)
+  );
+  addConflicts(conflicts);
+  const mergedSubjects = migrateSubjects(subjects);
+
+  // Write back only what the cloud is missing, e.g. local edits or
+  // generated grade ids
+  if (canonicalJson(mergedSubjects) !== canonicalJson(cloudSubjects)) {
+    await saveSubjectsToStorage(mergedSubjects, userId, true);
+    return readStoredSubjects();
+  }
+
+  // Save cloud subjects locally for offline access
+  const repository = await getGradeRepository();
+  const localChanged =
+    canonicalJson(await repository.getSubjects()) !==
+    canonicalJson(mergedSubjects);
+  await repository.saveSubjects(mergedSubjects);
+  saveSyncBase(userId, mergedSubjects);
+  clearOutbox(userId);
+  // Changes made on another device need to show up here
+  if (localChanged) {
+    notifySubjectsUpdated();
+  }
+  return mergedSubjects;
+}
+
+// Merge local and cloud subjects and store the result on both sides.
+// Resolves to false when changes could not be sent and were queued.
+export async function syncWithCloud(userId: string): Promise<boolean> {
+  const cloudSubjects = await getSubjectsFromCloud(userId);
+  if (cloudSubjects.length > 0) {
+    await mergeWithCloud(userId, cloudSubjects);
+  } else {
+    const localSubjects = await readStoredSubjects();
+    if (localSubjects.length === 0) return true;
+    const syncResult = await syncSubjectsToCloud(userId, localSubjects);
+    if (!syncResult.success) return false;
+    clearOutbox(userId);
+    saveSyncBase(userId, localSubjects);
+  }
+  return !hasPendingChanges(userId);
+}
+
+// Apply the version the user picked for a conflicting subject or grade. It
+// is stamped as the newest change so it also wins on other devices.
+export async function resolveConflict(
+  conflict: SyncConflict,
+  side: ConflictSide,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === conflict.subjectId);
+    if (subjectIndex === -1) {
+      console.error(`Subject ${conflict.subjectId} not found`);
+      return false;
     }
 
-    logStorageOperation("retrieving", migratedSubjects);
-    return migratedSubjects;
+    const updatedAt = new Date().toISOString();
+    const subject = subjects[subjectIndex];
+    if (conflict.kind === "grade") {
+      const grade = { ...conflict[side], updatedAt };
+      const grades = subject.grades.some((g) => g.id === grade.id)
+        ? subject.grades.map((g) => (g.id === grade.id ? grade : g))
+        : [...subject.grades, grade];
+      const updatedSubject = { ...subject, grades };
+      updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
+      subjects[subjectIndex] = updatedSubject;
+    } else {
+      const updatedSubject = {
+        ...conflict[side],
+        grades: subject.grades,
+        updatedAt,
+      };
+      updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
+      subjects[subjectIndex] = updatedSubject;
+    }
+
+    const success = await saveSubjectsToStorage(subjects, userId, syncEnabled);
+    if (success) {
+      removeConflict(conflict);
+    }
+    return success;
   } catch (error) {
-    console.error("Error retrieving subjects from localStorage:", error);
-    const defaultSubjects = initializeSubjects();
-    saveSubjectsToStorage(defaultSubjects, userId, syncEnabled);
-    return defaultSubjects;
+    console.error("Error resolving sync conflict:", error);
+    return false;
   }
 }
 
+// Run pending schema migrations and recalculate the averages, which may
+// depend on migrated values. Cloud data carries no schema version, so it
+// goes through all migrations.
+export function migrateSubjects(
+  subjects: Subject[],
+  fromVersion = 0
+): Subject[] {
+  return runMigrations(subjects, fromVersion).map((subject) =>
+    subject.grades.length > 0
+      ? { ...subject, averageGrade: calculateSubjectAverage(subject) }
+      : subject
+  );
+}
+
 // Add a grade to a specific subject
 export async function addGradeToSubject(
   subjectid: string,
   grade: Grade,
   userId?: string,
   syncEnabled?: boolean
+): Promise<boolean> {
+  console.log(`Adding grade to subject ${subjectid}:`, grade);
+  return addGradesToSubject(subjectid, [grade], userId, syncEnabled);
+}
+
+// Give new grades an id and a term. Without an explicit term a grade goes
+// into the term of its date, or the active term.
+export function prepareNewGrades(
+  grades: Grade[],
+  terms: Term[] = getTerms()
+): Grade[] {
+  return grades.map((grade) => {
+    const termId =
+      grade.termId ??
+      (findTermForDate(grade.date, terms) ?? getActiveTerm(terms))?.id;
+    return {
+      ...grade,
+      id: grade.id || generateId(),
+      ...(termId && { termId }),
+    };
+  });
+}
+
+// Add several grades to a subject with a single save
+export async function addGradesToSubject(
+  subjectid: string,
+  grades: Grade[],
+  userId?: string,
+  syncEnabled?: boolean
 ): Promise<boolean> {
   try {
-    console.log(`Adding grade to subject ${subjectid}:`, grade);
     const subjects = await getSubjectsFromStorage(userId, syncEnabled);
     const subjectIndex = subjects.findIndex((s) => s.id === subjectid);
 
@@ -167,6 +578,13 @@ export async function addGradeToSubject(
       return false;
     }
 
+    const terms = getTerms();
+    const newGrades = prepareNewGrades(grades, terms);
+    if (newGrades.some((grade) => isTermArchived(grade.termId, terms))) {
+      console.error("Cannot add grades to an archived term");
+      return false;
+    }
+
     const updatedSubject = { ...subjects[subjectIndex] };
 
     // Ensure grades array exists
@@ -174,19 +592,76 @@ export async function addGradeToSubject(
       updatedSubject.grades = [];
     }
 
-    updatedSubject.grades = [...updatedSubject.grades, grade];
-    updatedSubject.averageGrade = calculateAverage(updatedSubject.grades);
+    updatedSubject.grades = [...updatedSubject.grades, ...newGrades];
+    updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
 
     subjects[subjectIndex] = updatedSubject;
     const saveResult = await saveSubjectsToStorage(
       subjects,
       userId,
-      syncEnabled
+      syncEnabled,
+      newGrades.length === 1
+        ? "Grade added"
+        : `${newGrades.length} grades added`
     );
     console.log("Subjects saved successfully:", saveResult);
     return saveResult;
   } catch (error) {
-    console.error("Error adding grade to subject:", error);
+    console.error("Error adding grades to subject:", error);
+    return false;
+  }
+}
+
+// Add grades to subjects given by name with a single save, e.g. from a CSV
+// file. Subjects that do not exist yet are created.
+export async function importGradesBySubjectName(
+  groups: { subjectName: string; grades: Grade[] }[],
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const terms = getTerms();
+    let gradeCount = 0;
+
+    for (const group of groups) {
+      const name = group.subjectName.trim();
+      if (!name) {
+        console.error("Subject name cannot be empty");
+        return false;
+      }
+
+      const newGrades = prepareNewGrades(group.grades, terms);
+      if (newGrades.some((grade) => isTermArchived(grade.termId, terms))) {
+        console.error("Cannot add grades to an archived term");
+        return false;
+      }
+
+      let subjectIndex = subjects.findIndex(
+        (s) => s.name.trim().toLowerCase() === name.toLowerCase()
+      );
+      if (subjectIndex === -1) {
+        subjects.push({ id: generateId(), name, grades: [] });
+        subjectIndex = subjects.length - 1;
+      }
+
+      const updatedSubject = {
+        ...subjects[subjectIndex],
+        grades: [...(subjects[subjectIndex].grades || []), ...newGrades],
+      };
+      updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
+      subjects[subjectIndex] = updatedSubject;
+      gradeCount += newGrades.length;
+    }
+
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      gradeCount === 1 ? "Grade imported" : `${gradeCount} grades imported`
+    );
+  } catch (error) {
+    console.error("Error importing grades:", error);
     return false;
   }
 }
@@ -194,7 +669,7 @@ export async function addGradeToSubject(
 // Delete a grade from a specific subject
 export async function deleteGradeFromSubject(
   subjectid: string,
-  gradeIndex: number,
+  gradeId: string,
   userId?: string,
   syncEnabled?: boolean
 ): Promise<boolean> {
@@ -214,24 +689,105 @@ export async function deleteGradeFromSubject(
       return true; // Nothing to delete
     }
 
+    const grade = updatedSubject.grades.find((g) => g.id === gradeId);
+    if (grade && isTermArchived(grade.termId)) {
+      console.error("Cannot delete grades of an archived term");
+      return false;
+    }
+
     updatedSubject.grades = updatedSubject.grades.filter(
-      (_, i) => i !== gradeIndex
+      (grade) => grade.id !== gradeId
     );
-    updatedSubject.averageGrade = calculateAverage(updatedSubject.grades);
+    updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
 
     subjects[subjectIndex] = updatedSubject;
-    return saveSubjectsToStorage(subjects, userId, syncEnabled);
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Grade deleted"
+    );
   } catch (error) {
     console.error("Error deleting grade from subject:", error);
     return false;
   }
 }
 
+// Update an existing grade in place
+export async function updateGrade(
+  subjectId: string,
+  gradeId: string,
+  patch: Partial<Omit<Grade, "id">>,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    const updatedSubject = { ...subjects[subjectIndex] };
+    const grades = updatedSubject.grades || [];
+
+    const existingGrade = grades.find((grade) => grade.id === gradeId);
+    if (!existingGrade) {
+      console.error(`Grade with id ${gradeId} not found`);
+      return false;
+    }
+
+    // A new date moves the grade into the term it falls into
+    const terms = getTerms();
+    const dateTerm =
+      patch.date && patch.date !== existingGrade.date
+        ? findTermForDate(patch.date, terms)
+        : undefined;
+    const termId = patch.termId ?? dateTerm?.id ?? existingGrade.termId;
+    if (
+      isTermArchived(existingGrade.termId, terms) ||
+      isTermArchived(termId, terms)
+    ) {
+      console.error("Cannot change grades of an archived term");
+      return false;
+    }
+
+    updatedSubject.grades = grades.map((grade) =>
+      grade.id === gradeId
+        ? { ...grade, ...patch, id: grade.id, termId }
+        : grade
+    );
+    updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
+
+    subjects[subjectIndex] = updatedSubject;
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Grade updated"
+    );
+  } catch (error) {
+    console.error("Error updating grade:", error);
+    return false;
+  }
+}
+
 // Get a specific subject by ID
 export async function getSubjectById(
   subjectId: string
 ): Promise<Subject | null> {
   try {
+    // Read the single subject through its index instead of the full list
+    const repository = await getGradeRepository();
+    if ((await repository.getSchemaVersion()) === SCHEMA_VERSION) {
+      const storedSubject = await repository.getSubject(subjectId);
+      if (storedSubject) return storedSubject;
+    }
+
+    // The full list runs migrations and creates the default subjects on
+    // first use
     const subjects = await getSubjectsFromStorage();
     const subject = subjects.find((s) => s.id === subjectId);
     return subject || null;
@@ -241,14 +797,275 @@ export async function getSubjectById(
   }
 }
 
-// Calculate average grade with weights
-function calculateAverage(grades: Grade[]): number {
+// Categories suggested when a subject switches to category-based weighting
+export const DEFAULT_GRADE_CATEGORIES: GradeCategory[] = [
+  { id: "written", name: "Written", share: 60 },
+  { id: "oral", name: "Oral", share: 40 },
+];
+
+// Get the grade types configured for a subject
+export function getGradeTypes(weighting?: WeightingConfig): GradeTypeConfig[] {
+  return weighting?.gradeTypes?.length
+    ? weighting.gradeTypes
+    : DEFAULT_GRADE_TYPES;
+}
+
+// Get the default weight of a grade type, 1.0 for unknown types
+export function getTypeWeight(
+  type: string,
+  weighting?: WeightingConfig
+): number {
+  const config = getGradeTypes(weighting).find((t) => t.name === type);
+  return config ? config.weight : 1.0;
+}
+
+// Check whether a subject averages its categories separately
+export function usesCategoryWeighting(weighting?: WeightingConfig): boolean {
+  return (
+    weighting?.mode === "categories" &&
+    (weighting.categories?.length ?? 0) > 0
+  );
+}
+
+// Average each category on its own and work out its share of the final grade.
+// Categories without grades are left out and the remaining shares scaled up.
+export function calculateCategoryBreakdown(
+  grades: Grade[],
+  weighting?: WeightingConfig
+): CategoryBreakdown[] {
+  const categories = weighting?.categories || [];
+  const gradeTypes = getGradeTypes(weighting);
+
+  const categoryAverages = categories.map((category) => {
+    const categoryGrades = (grades || []).filter(
+      (grade) =>
+        gradeTypes.find((t) => t.name === grade.type)?.category === category.id
+    );
+    return {
+      category,
+      gradeCount: categoryGrades.length,
+      average:
+        categoryGrades.length > 0
+          ? calculatePooledAverage(categoryGrades, weighting)
+          : null,
+    };
+  });
+
+  const totalShare = categoryAverages
+    .filter((c) => c.average !== null)
+    .reduce((sum, c) => sum + c.category.share, 0);
+
+  return categoryAverages.map((c) => {
+    const effectiveShare =
+      c.average !== null && totalShare > 0 ? c.category.share / totalShare : 0;
+    return {
+      ...c,
+      effectiveShare,
+      contribution: c.average !== null ? c.average * effectiveShare : 0,
+    };
+  });
+}
+
+// Grades whose type is not assigned to any category of the subject
+export function getUncategorizedGrades(
+  grades: Grade[],
+  weighting?: WeightingConfig
+): Grade[] {
+  const categoryIds = (weighting?.categories || []).map((c) => c.id);
+  const gradeTypes = getGradeTypes(weighting);
+  return (grades || []).filter((grade) => {
+    const category = gradeTypes.find((t) => t.name === grade.type)?.category;
+    return !category || !categoryIds.includes(category);
+  });
+}
+
+// Calculate average grade with weights, rounded by the scale's rules
+export function calculateAverage(
+  grades: Grade[],
+  weighting?: WeightingConfig,
+  scale?: GradingScale
+): number {
   if (!grades || grades.length === 0) return 0;
 
+  const average = calculateUnroundedAverage(grades, weighting);
+  return scale
+    ? roundAverage(average, scale)
+    : Number.parseFloat(average.toFixed(2));
+}
+
+// Category or pooled average before rounding
+function calculateUnroundedAverage(
+  grades: Grade[],
+  weighting?: WeightingConfig
+): number {
+  return usesCategoryWeighting(weighting)
+    ? calculateCategoryBreakdown(grades, weighting).reduce(
+        (sum, c) => sum + c.contribution,
+        0
+      )
+    : calculatePooledAverage(grades, weighting);
+}
+
+// Grades planned assessments would become if they all got the same value
+export function toProjectedGrades(
+  planned: PlannedAssessment[],
+  value: number
+): Grade[] {
+  return planned.map((assessment) => ({
+    id: assessment.id,
+    value,
+    type: assessment.type,
+    weight: assessment.weight,
+    date: assessment.date ?? "",
+  }));
+}
+
+// Which grade every planned assessment needs so the average reaches the
+// target. Uses the same weighting as calculateAverage, so the average is
+// linear in the planned grade and can be solved from two points.
+export function calculateRequiredGrade(
+  grades: Grade[],
+  planned: PlannedAssessment[],
+  target: number,
+  weighting: WeightingConfig | undefined,
+  scale: GradingScale
+): GradeRequirement {
+  const best = scale.higherIsBetter ? scale.max : scale.min;
+  const worst = scale.higherIsBetter ? scale.min : scale.max;
+  const averageWith = (value: number) =>
+    calculateUnroundedAverage(
+      [...grades, ...toProjectedGrades(planned, value)],
+      weighting
+    );
+  const reaches = (value: number) =>
+    isAtLeastAsGood(roundAverage(averageWith(value), scale), target, scale);
+
+  const bestAverage = roundAverage(averageWith(best), scale);
+  const worstAverage = roundAverage(averageWith(worst), scale);
+  const result = { bestAverage, worstAverage };
+
+  // Planned assessments of types outside every category do not count
+  if (planned.length === 0 || bestAverage === worstAverage) {
+    return {
+      ...result,
+      status: "no-effect",
+      requiredValue: null,
+      requiredGrade: null,
+    };
+  }
+  if (!reaches(best)) {
+    return {
+      ...result,
+      status: "unreachable",
+      requiredValue: null,
+      requiredGrade: null,
+    };
+  }
+  if (reaches(worst)) {
+    return {
+      ...result,
+      status: "guaranteed",
+      requiredValue: worst,
+      requiredGrade: worst,
+    };
+  }
+
+  const slope = (averageWith(worst) - averageWith(best)) / (worst - best);
+  const requiredValue = Number.parseFloat(
+    (best + (target - averageWith(best)) / slope).toFixed(2)
+  );
+
+  // Walk from the best grade towards the worst and keep the last one that
+  // still reaches the target
+  const candidates =
+    scale.values ??
+    Array.from(
+      { length: Math.round((scale.max - scale.min) / scale.step) + 1 },
+      (_, i) => roundToStep(scale.min + i * scale.step, scale.step)
+    );
+  const ordered = [...candidates].sort((a, b) =>
+    scale.higherIsBetter ? b - a : a - b
+  );
+  let requiredGrade = ordered[0];
+  for (const value of ordered) {
+    if (!reaches(value)) break;
+    requiredGrade = value;
+  }
+
+  return { ...result, status: "reachable", requiredValue, requiredGrade };
+}
+
+// Average of a subject in its own grading scale
+export function calculateSubjectAverage(subject: Subject): number {
+  return calculateAverage(
+    subject.grades,
+    subject.weighting,
+    getSubjectScale(subject, getSettings().gradingScale)
+  );
+}
+
+// Credit weight of subjects that do not set their own
+export const DEFAULT_CREDIT_WEIGHT = 1;
+
+// Work out how much each subject adds to the overall average. Averages are
+// converted to the given scale; subjects without grades are left out.
+export function calculateSubjectContributions(
+  subjects: Subject[],
+  scale: GradingScale
+): SubjectContribution[] {
+  const defaultScaleId = getSettings().gradingScale;
+  const subjectAverages = subjects.map((subject) => ({
+    subject,
+    creditWeight: subject.creditWeight ?? DEFAULT_CREDIT_WEIGHT,
+    average:
+      subject.grades.length > 0 && subject.averageGrade !== undefined
+        ? convertGrade(
+            subject.averageGrade,
+            getSubjectScale(subject, defaultScaleId),
+            scale
+          )
+        : null,
+  }));
+
+  const totalWeight = subjectAverages
+    .filter((s) => s.average !== null)
+    .reduce((sum, s) => sum + s.creditWeight, 0);
+
+  return subjectAverages.map((s) => {
+    const effectiveShare =
+      s.average !== null && totalWeight > 0 ? s.creditWeight / totalWeight : 0;
+    return {
+      ...s,
+      effectiveShare,
+      contribution: s.average !== null ? s.average * effectiveShare : 0,
+    };
+  });
+}
+
+// Credit-weighted average across subjects, or null if none has grades
+export function calculateOverallAverage(
+  subjects: Subject[],
+  scale: GradingScale
+): number | null {
+  const contributions = calculateSubjectContributions(subjects, scale);
+  if (!contributions.some((c) => c.average !== null)) return null;
+
+  return roundAverage(
+    contributions.reduce((sum, c) => sum + c.contribution, 0),
+    scale
+  );
+}
+
+// Weighted mean of all grades, unrounded
+function calculatePooledAverage(
+  grades: Grade[],
+  weighting?: WeightingConfig
+): number {
   // Calculate weighted sum and total weight
   const { weightedSum, totalWeight } = grades.reduce(
     (acc, grade) => {
-      const weight = grade.weight || 1.0; // Default to 1.0 if weight is not defined
+      // Fall back to the configured type weight if the grade has none
+      const weight = grade.weight ?? getTypeWeight(grade.type, weighting);
       return {
         weightedSum: acc.weightedSum + grade.value * weight,
         totalWeight: acc.totalWeight + weight,
@@ -258,12 +1075,13 @@ function calculateAverage(grades: Grade[]): number {
   );
 
   // Return weighted average
-  return Number.parseFloat((weightedSum / totalWeight).toFixed(2));
+  return totalWeight > 0 ? weightedSum / totalWeight : 0;
 }
 
 // Clear all grades data (for testing)
-export function clearAllGradesData(): void {
-  localStorage.removeItem(STORAGE_KEY);
+export async function clearAllGradesData(): Promise<void> {
+  const repository = await getGradeRepository();
+  await repository.clear();
 }
 
 export function ensureAllSubjectsExist(subjects: Subject[]): Subject[] {
@@ -291,25 +1109,565 @@ export async function addNewSubject(
 
     const subjects = await getSubjectsFromStorage(userId, syncEnabled);
 
-    // Generate a unique ID based on the name (lowercase, spaces replaced with hyphens)
-    const id = name.toLowerCase().replace(/\s+/g, "-");
-
-    // Check if a subject with this ID already exists
-    if (subjects.some((s) => s.id === id)) {
-      console.error(`Subject with id ${id} already exists`);
+    // Check if a subject with this name already exists
+    if (isSubjectNameTaken(subjects, name)) {
+      console.error(`Subject with name ${name} already exists`);
       return false;
     }
 
+    // The id stays stable even if the subject is renamed later
     const newSubject: Subject = {
-      id,
-      name,
+      id: generateId(),
+      name: name.trim(),
       grades: [],
     };
 
     const updatedSubjects = [...subjects, newSubject];
-    return saveSubjectsToStorage(updatedSubjects, userId, syncEnabled);
+    return saveSubjectsToStorage(
+      updatedSubjects,
+      userId,
+      syncEnabled,
+      "Subject added"
+    );
   } catch (error) {
     console.error("Error adding new subject:", error);
     return false;
   }
 }
+
+// Check whether another subject already uses this name
+function isSubjectNameTaken(
+  subjects: Subject[],
+  name: string,
+  exceptId?: string
+): boolean {
+  const normalizedName = name.trim().toLowerCase();
+  return subjects.some(
+    (s) => s.id !== exceptId && s.name.trim().toLowerCase() === normalizedName
+  );
+}
+
+// Rename a subject without changing its id
+export async function renameSubject(
+  subjectId: string,
+  name: string,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    if (!name.trim()) {
+      console.error("Subject name cannot be empty");
+      return false;
+    }
+
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    if (isSubjectNameTaken(subjects, name, subjectId)) {
+      console.error(`Subject with name ${name} already exists`);
+      return false;
+    }
+
+    subjects[subjectIndex] = { ...subjects[subjectIndex], name: name.trim() };
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Subject renamed"
+    );
+  } catch (error) {
+    console.error("Error renaming subject:", error);
+    return false;
+  }
+}
+
+// Delete a subject together with all of its grades
+export async function deleteSubject(
+  subjectId: string,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+
+    if (!subjects.some((s) => s.id === subjectId)) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    const updatedSubjects = subjects.filter((s) => s.id !== subjectId);
+    return saveSubjectsToStorage(
+      updatedSubjects,
+      userId,
+      syncEnabled,
+      "Subject deleted"
+    );
+  } catch (error) {
+    console.error("Error deleting subject:", error);
+    return false;
+  }
+}
+
+// Archive or restore a subject; archived subjects keep their grades
+export async function archiveSubject(
+  subjectId: string,
+  archived: boolean = true,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    subjects[subjectIndex] = { ...subjects[subjectIndex], archived };
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      archived ? "Subject archived" : "Subject restored"
+    );
+  } catch (error) {
+    console.error("Error archiving subject:", error);
+    return false;
+  }
+}
+
+// Reorder subjects; ids missing from the list keep their relative order at the end
+export async function reorderSubjects(
+  orderedIds: string[],
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+
+    const ordered = orderedIds
+      .map((id) => subjects.find((s) => s.id === id))
+      .filter((s): s is Subject => s !== undefined);
+    const remaining = subjects.filter((s) => !orderedIds.includes(s.id));
+
+    return saveSubjectsToStorage(
+      [...ordered, ...remaining],
+      userId,
+      syncEnabled,
+      "Subjects reordered"
+    );
+  } catch (error) {
+    console.error("Error reordering subjects:", error);
+    return false;
+  }
+}
+
+// Replace a subject's grade types and weights
+export async function updateSubjectWeighting(
+  subjectId: string,
+  weighting: WeightingConfig,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    const subject = subjects[subjectIndex];
+
+    // Grades still carrying their type's old default weight follow the new
+    // configuration; weights that were edited by hand are kept
+    const grades = subject.grades.map((grade) => {
+      const oldWeight = getTypeWeight(grade.type, subject.weighting);
+      const typeConfig = weighting.gradeTypes.find(
+        (t) => t.name === grade.type
+      );
+      return typeConfig && grade.weight === oldWeight
+        ? { ...grade, weight: typeConfig.weight }
+        : grade;
+    });
+
+    const updatedSubject = { ...subject, weighting, grades };
+    subjects[subjectIndex] = {
+      ...updatedSubject,
+      averageGrade: calculateSubjectAverage(updatedSubject),
+    };
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Weighting updated"
+    );
+  } catch (error) {
+    console.error("Error updating subject weighting:", error);
+    return false;
+  }
+}
+
+// Set how much a subject counts in the overall average
+export async function updateSubjectCreditWeight(
+  subjectId: string,
+  creditWeight: number,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    if (!(creditWeight > 0)) {
+      console.error("Credit weight must be a positive number");
+      return false;
+    }
+
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    subjects[subjectIndex] = { ...subjects[subjectIndex], creditWeight };
+    return saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Credit weight updated"
+    );
+  } catch (error) {
+    console.error("Error updating subject credit weight:", error);
+    return false;
+  }
+}
+
+// Save the Abitur data of several subjects at once; undefined removes it
+export async function updateAbiturCourses(
+  courses: Record<string, AbiturCourse | undefined>,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+
+    const updatedSubjects = subjects.map((subject) => {
+      if (!(subject.id in courses)) return subject;
+      const updatedSubject = { ...subject, abitur: courses[subject.id] };
+      if (!updatedSubject.abitur) {
+        delete updatedSubject.abitur;
+      }
+      return updatedSubject;
+    });
+    return saveSubjectsToStorage(
+      updatedSubjects,
+      userId,
+      syncEnabled,
+      "Abitur courses updated"
+    );
+  } catch (error) {
+    console.error("Error updating Abitur courses:", error);
+    return false;
+  }
+}
+
+// Convert all grades of a subject from one scale to another
+function convertSubjectGrades(
+  subject: Subject,
+  from: GradingScale,
+  to: GradingScale
+): Subject {
+  // Tendency notation only describes the original value, so it is dropped
+  const grades = subject.grades.map((grade) => ({
+    ...grade,
+    value: convertGrade(grade.value, from, to),
+    notation: undefined,
+  }));
+  return {
+    ...subject,
+    grades,
+    averageGrade: calculateAverage(grades, subject.weighting, to),
+  };
+}
+
+// Archived terms keep the averages frozen when they were archived. When the
+// grades of subjects are converted, these are converted along with them, so
+// they match the scale the subjects use now.
+function convertFrozenAverages(
+  subjectIds: string[],
+  from: GradingScale,
+  to: GradingScale
+): boolean {
+  const terms = getTerms();
+  if (!terms.some((term) => term.frozenAverages)) return true;
+
+  return saveTerms(
+    terms.map((term) =>
+      term.frozenAverages
+        ? {
+            ...term,
+            frozenAverages: Object.fromEntries(
+              Object.entries(term.frozenAverages).map(([id, average]) => [
+                id,
+                subjectIds.includes(id)
+                  ? roundAverage(convertGrade(average, from, to), to)
+                  : average,
+              ])
+            ),
+          }
+        : term
+    )
+  );
+}
+
+// Choose the grading scale of a subject; undefined follows the profile default
+export async function updateSubjectScale(
+  subjectId: string,
+  scale: GradingScaleId | undefined,
+  convertGrades: boolean,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const subjectIndex = subjects.findIndex((s) => s.id === subjectId);
+
+    if (subjectIndex === -1) {
+      console.error(`Subject with id ${subjectId} not found`);
+      return false;
+    }
+
+    const defaultScaleId = getSettings().gradingScale;
+    const subject = subjects[subjectIndex];
+    const from = getGradingScale(subject.scale ?? defaultScaleId);
+    const to = getGradingScale(scale ?? defaultScaleId);
+
+    const updatedSubject = convertGrades
+      ? convertSubjectGrades(subject, from, to)
+      : {
+          ...subject,
+          grades: to.supportsTendency
+            ? subject.grades
+            : subject.grades.map((grade) => ({
+                ...grade,
+                notation: undefined,
+              })),
+          averageGrade: calculateAverage(subject.grades, subject.weighting, to),
+        };
+    if (scale) {
+      updatedSubject.scale = scale;
+    } else {
+      delete updatedSubject.scale;
+    }
+
+    subjects[subjectIndex] = updatedSubject;
+    const success = await saveSubjectsToStorage(
+      subjects,
+      userId,
+      syncEnabled,
+      "Grading scale changed"
+    );
+    return success && convertGrades
+      ? convertFrozenAverages([subjectId], from, to)
+      : success;
+  } catch (error) {
+    console.error("Error updating subject scale:", error);
+    return false;
+  }
+}
+
+// Convert the grades of every subject that follows the profile's default scale
+export async function convertDefaultScaleSubjects(
+  fromScaleId: GradingScaleId,
+  toScaleId: GradingScaleId,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const from = getGradingScale(fromScaleId);
+    const to = getGradingScale(toScaleId);
+
+    const updatedSubjects = subjects.map((subject) =>
+      subject.scale ? subject : convertSubjectGrades(subject, from, to)
+    );
+    const success = await saveSubjectsToStorage(
+      updatedSubjects,
+      userId,
+      syncEnabled
+    );
+    const convertedIds = subjects
+      .filter((subject) => !subject.scale)
+      .map((subject) => subject.id);
+    return success && convertFrozenAverages(convertedIds, from, to);
+  } catch (error) {
+    console.error("Error converting subjects to new default scale:", error);
+    return false;
+  }
+}
+
+// Recompute grades entered in tendency notation after the offset changed.
+// Grades of archived terms keep their values, which their frozen averages
+// were calculated from.
+export async function remapTendencyGrades(
+  tendencyOffset: number,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const terms = getTerms();
+
+    const updatedSubjects = subjects.map((subject) => {
+      if (!subject.grades.some((grade) => grade.notation)) return subject;
+      const updatedSubject = {
+        ...subject,
+        grades: subject.grades.map((grade) =>
+          isTermArchived(grade.termId, terms)
+            ? grade
+            : remapTendencyGrade(grade, tendencyOffset)
+        ),
+      };
+      updatedSubject.averageGrade = calculateSubjectAverage(updatedSubject);
+      return updatedSubject;
+    });
+    return saveSubjectsToStorage(updatedSubjects, userId, syncEnabled);
+  } catch (error) {
+    console.error("Error remapping tendency grades:", error);
+    return false;
+  }
+}
+
+// Grades of a term; null selects all grades
+export function getTermGrades(grades: Grade[], term: Term | null): Grade[] {
+  return term ? grades.filter((grade) => grade.termId === term.id) : grades;
+}
+
+// A subject reduced to one term's grades. Archived terms show the average
+// frozen when they were archived.
+export function getSubjectTermView(
+  subject: Subject,
+  term: Term | null
+): Subject {
+  if (!term) return subject;
+
+  const grades = getTermGrades(subject.grades, term);
+  const frozenAverage = term.archived
+    ? term.frozenAverages?.[subject.id]
+    : undefined;
+  return {
+    ...subject,
+    grades,
+    averageGrade:
+      frozenAverage ?? calculateSubjectAverage({ ...subject, grades }),
+  };
+}
+
+// A subject with hypothetical grades layered over its real ones
+export function withHypotheticalGrades(
+  subject: Subject,
+  hypothetical: Grade[]
+): Subject {
+  if (hypothetical.length === 0) return subject;
+
+  const grades = [...subject.grades, ...hypothetical];
+  return {
+    ...subject,
+    grades,
+    averageGrade: calculateSubjectAverage({ ...subject, grades }),
+  };
+}
+
+// Put grades without a term into the term their date falls into
+export async function assignGradesToTerms(
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const terms = getTerms();
+    let changed = false;
+
+    const updatedSubjects = subjects.map((subject) => ({
+      ...subject,
+      grades: subject.grades.map((grade) => {
+        if (grade.termId) return grade;
+        const term = findTermForDate(grade.date, terms);
+        if (!term) return grade;
+        changed = true;
+        return { ...grade, termId: term.id };
+      }),
+    }));
+
+    return changed
+      ? saveSubjectsToStorage(updatedSubjects, userId, syncEnabled)
+      : true;
+  } catch (error) {
+    console.error("Error assigning grades to terms:", error);
+    return false;
+  }
+}
+
+// Detach grades from a term that is being deleted
+export async function removeTermFromGrades(
+  termId: string,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const updatedSubjects = subjects.map((subject) => ({
+      ...subject,
+      grades: subject.grades.map((grade) =>
+        grade.termId === termId ? { ...grade, termId: undefined } : grade
+      ),
+    }));
+    return saveSubjectsToStorage(updatedSubjects, userId, syncEnabled);
+  } catch (error) {
+    console.error("Error removing term from grades:", error);
+    return false;
+  }
+}
+
+// Make a term read-only and freeze each subject's average for it
+export async function archiveTerm(
+  termId: string,
+  userId?: string,
+  syncEnabled?: boolean
+): Promise<boolean> {
+  try {
+    const term = getTerms().find((t) => t.id === termId);
+    if (!term) {
+      console.error(`Term with id ${termId} not found`);
+      return false;
+    }
+
+    const subjects = await getSubjectsFromStorage(userId, syncEnabled);
+    const frozenAverages: Record<string, number> = {};
+    for (const subject of subjects) {
+      const grades = getTermGrades(subject.grades, term);
+      if (grades.length > 0) {
+        frozenAverages[subject.id] = calculateSubjectAverage({
+          ...subject,
+          grades,
+        });
+      }
+    }
+
+    return updateTerm(termId, {
+      archived: true,
+      active: false,
+      frozenAverages,
+    });
+  } catch (error) {
+    console.error("Error archiving term:", error);
+    return false;
+  }
+}
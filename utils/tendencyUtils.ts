@@ -0,0 +1,79 @@
+import type { Grade } from "../types/grades";
+import { validateGradeValue, type GradingScale } from "./gradingScales";
+
+// Offsets teachers commonly use for "+" and "-": 2- = 2.3, 2.25 or 2.33
+export const TENDENCY_OFFSETS = [0.25, 0.3, 1 / 3];
+
+export type ParsedGradeInput =
+  | { value: number; notation?: string; error?: undefined }
+  | { error: string };
+
+const TENDENCY_PATTERN = /^(\d)\s*([+-])$/;
+const BETWEEN_PATTERN = /^(\d)\s*[-–/]\s*(\d)$/;
+
+// Map German tendency notation to a number: "2-" -> 2 + offset, "1+" -> 1 - offset,
+// "2-3" -> 2.5. Returns null if the input is not tendency notation.
+export function parseTendencyNotation(
+  input: string,
+  offset: number
+): { value: number; notation: string } | null {
+  const trimmed = input.trim();
+
+  const tendency = trimmed.match(TENDENCY_PATTERN);
+  if (tendency) {
+    const base = Number(tendency[1]);
+    const value = tendency[2] === "+" ? base - offset : base + offset;
+    return {
+      value: Number.parseFloat(value.toFixed(2)),
+      notation: `${base}${tendency[2]}`,
+    };
+  }
+
+  const between = trimmed.match(BETWEEN_PATTERN);
+  if (between) {
+    const lower = Number(between[1]);
+    const upper = Number(between[2]);
+    if (upper !== lower + 1) return null;
+    return { value: lower + 0.5, notation: `${lower}-${upper}` };
+  }
+
+  return null;
+}
+
+// Parse what the user typed into a grade value, keeping tendency notation on
+// scales that support it
+export function parseGradeInput(
+  input: string,
+  scale: GradingScale,
+  tendencyOffset: number
+): ParsedGradeInput {
+  if (scale.supportsTendency) {
+    const tendency = parseTendencyNotation(input, tendencyOffset);
+    if (tendency) {
+      // The base grade must exist on the scale. "1+" may fall just outside
+      // it, but nothing may be worse than the worst grade ("6-", "6-7").
+      const base = Number.parseInt(tendency.notation);
+      if (
+        validateGradeValue(base, scale) ||
+        validateGradeValue(Math.ceil(tendency.value), scale)
+      ) {
+        return { error: `"${tendency.notation}" is not a valid grade` };
+      }
+      return tendency;
+    }
+  }
+
+  const value = scale.parse(input);
+  const error = validateGradeValue(value, scale);
+  if (value === null || error) {
+    return { error: error ?? "Please enter a valid grade" };
+  }
+  return { value };
+}
+
+// Recompute the value of a grade from its notation with a new offset
+export function remapTendencyGrade(grade: Grade, offset: number): Grade {
+  if (!grade.notation) return grade;
+  const parsed = parseTendencyNotation(grade.notation, offset);
+  return parsed ? { ...grade, value: parsed.value } : grade;
+}
@@ -0,0 +1,127 @@
+import type { Term } from "../types/terms";
+
+const TERMS_KEY = "gradeCalculatorTerms";
+
+// Value of selectedTermId that shows grades from every term
+export const ALL_TERMS = "all";
+
+// Notify other components that terms have changed
+export function notifyTermsUpdated(): void {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event("termsUpdated"));
+  }
+}
+
+// Read terms from localStorage, ordered by start date
+export function getTerms(): Term[] {
+  if (typeof window === "undefined") {
+    return [];
+  }
+
+  try {
+    const termsJson = localStorage.getItem(TERMS_KEY);
+    if (!termsJson) {
+      return [];
+    }
+    const terms: Term[] = JSON.parse(termsJson);
+    return Array.isArray(terms)
+      ? [...terms].sort((a, b) => a.startDate.localeCompare(b.startDate))
+      : [];
+  } catch (error) {
+    console.error("Error reading terms from localStorage:", error);
+    return [];
+  }
+}
+
+export function saveTerms(terms: Term[]): boolean {
+  try {
+    localStorage.setItem(TERMS_KEY, JSON.stringify(terms));
+    notifyTermsUpdated();
+    return true;
+  } catch (error) {
+    console.error("Error saving terms to localStorage:", error);
+    return false;
+  }
+}
+
+export function getActiveTerm(terms: Term[] = getTerms()): Term | undefined {
+  return terms.find((term) => term.active);
+}
+
+// The term a date falls into, if any
+export function findTermForDate(
+  date: string,
+  terms: Term[] = getTerms()
+): Term | undefined {
+  return terms.find((term) => term.startDate <= date && date <= term.endDate);
+}
+
+// Whether grades of the given term can no longer be changed
+export function isTermArchived(
+  termId: string | undefined,
+  terms: Term[] = getTerms()
+): boolean {
+  return !!termId && !!terms.find((term) => term.id === termId)?.archived;
+}
+
+// Resolve the selection to a term; null means all terms
+export function resolveSelectedTerm(
+  terms: Term[],
+  selectedTermId?: string
+): Term | null {
+  if (selectedTermId === ALL_TERMS) return null;
+  return (
+    terms.find((term) => term.id === selectedTermId) ??
+    getActiveTerm(terms) ??
+    null
+  );
+}
+
+// Add a term; the first term becomes the active one
+export function addTerm(term: Term): boolean {
+  const terms = getTerms();
+  if (terms.some((t) => t.name.toLowerCase() === term.name.toLowerCase())) {
+    console.error(`A term named "${term.name}" already exists`);
+    return false;
+  }
+  return saveTerms([
+    ...terms,
+    { ...term, active: terms.length === 0 || term.active },
+  ]);
+}
+
+export function updateTerm(
+  termId: string,
+  patch: Partial<Omit<Term, "id">>
+): boolean {
+  const terms = getTerms();
+  if (!terms.some((term) => term.id === termId)) {
+    console.error(`Term with id ${termId} not found`);
+    return false;
+  }
+  return saveTerms(
+    terms.map((term) =>
+      term.id === termId ? { ...term, ...patch, id: term.id } : term
+    )
+  );
+}
+
+// Make a term the one new grades are added to
+export function setActiveTerm(termId: string): boolean {
+  const terms = getTerms();
+  const term = terms.find((t) => t.id === termId);
+  if (!term || term.archived) {
+    console.error(`Term with id ${termId} cannot be made active`);
+    return false;
+  }
+  return saveTerms(terms.map((t) => ({ ...t, active: t.id === termId })));
+}
+
+export function deleteTerm(termId: string): boolean {
+  const terms = getTerms();
+  if (!terms.some((term) => term.id === termId)) {
+    console.error(`Term with id ${termId} not found`);
+    return false;
+  }
+  return saveTerms(terms.filter((term) => term.id !== termId));
+}
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    // Storage code needs window and localStorage; without IndexedDB the
+    // subjects are kept in localStorage
+    environment: "jsdom",
+  },
+});